@@ -1,5 +1,5 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { Globe, GlobeHandle } from './components/visuals/Globe.tsx';
 import { SolarSystemMap, SolarSystemMapHandle } from './components/visuals/SolarSystemMap.tsx';
 
@@ -11,18 +11,52 @@ import { SystemList } from './components/ui/SystemList.tsx';
 import { BodyInfo } from './components/ui/BodyInfo.tsx';
 import { ActivationOverlay } from './components/ui/ActivationOverlay.tsx';
 import { ExitButton } from './components/ui/ExitButton.tsx';
+import { DatasetDiagnostics } from './components/ui/DatasetDiagnostics.tsx';
+import { ImportSummary } from './components/ui/ImportSummary.tsx';
+import { BookmarkPanel } from './components/ui/BookmarkPanel.tsx';
+import { ShortcutsOverlay } from './components/ui/ShortcutsOverlay.tsx';
+import { SceneDescription, SceneTarget } from './components/ui/SceneDescription.tsx';
+import { CommandPalette, PaletteCommand } from './components/ui/CommandPalette.tsx';
+import { Legend } from './components/ui/Legend.tsx';
 
-import { SOLAR_SYSTEM_DATA } from './data/constants.ts';
-import { City } from './types/index.ts';
+import { useSolarSystemData } from './hooks/useSolarSystemData.ts';
+import { useSimulationClock } from './hooks/useSimulationClock.ts';
+import { useBookmarks } from './hooks/useBookmarks.ts';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts.ts';
+import { useReducedMotion } from './hooks/useReducedMotion.ts';
+import { CursorProjection, CursorProjectionContext } from './hooks/useCursorProjection.ts';
+import { createBodyRegistry } from './data/bodyRegistry.ts';
+import { readLayerFile, layerToGeoJson } from './data/geojson.ts';
+import { readBookmarkFile, bookmarksToJson } from './data/bookmarks.ts';
+import { DatasetIssue } from './data/validation.ts';
+import { downloadFile } from './utils/download.ts';
+import { UrlState, parseUrlState, serializeUrlState, isNavigationChange } from './utils/urlState.ts';
+import { EMPTY_FILTERS, LocationFilters, applyLocationFilters, collectFactions, isLocationVisible, toggleListValue } from './utils/filters.ts';
+import { SearchEntry, buildSearchIndex } from './utils/search.ts';
+import { CameraBookmark, City, LocationCategory, Zone } from './types/index.ts';
 
 type ViewMode = 'ORBIT' | 'SYSTEM';
 
 const App: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [activeBodyId, setActiveBodyId] = useState<string>('earth');
+  const [initialUrl] = useState(() => parseUrlState(window.location.hash));
+  const [activeBodyId, setActiveBodyId] = useState<string>(initialUrl.body || 'earth');
   const [selectedItem, setSelectedItem] = useState<City | null>(null);
-  const [viewMode, setViewMode] = useState<ViewMode>('ORBIT');
-  const [zoomLevel, setZoomLevel] = useState<number>(30);
+  const [selectedZone, setSelectedZone] = useState<Zone | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>(initialUrl.view || 'ORBIT');
+  const [zoomLevel, setZoomLevel] = useState<number>(initialUrl.zoom ?? 30);
+  const [ephemerisMode, setEphemerisMode] = useState<boolean>(false);
+  const [shortcutsVisible, setShortcutsVisible] = useState<boolean>(false);
+  const [paletteVisible, setPaletteVisible] = useState<boolean>(false);
+  const [showRoutes, setShowRoutes] = useState<boolean>(true);
+  // Description mode: on-screen text alternative, no typewriter, no idle globe spin
+  const [describeMode, setDescribeMode] = useState<boolean>(false);
+  const prefersReducedMotion = useReducedMotion();
+  const staticScene = describeMode || prefersReducedMotion;
+  const [visibleTargets, setVisibleTargets] = useState<string[]>([]);
+  const [focusedTarget, setFocusedTarget] = useState<string | null>(null);
+  // Legend toggles; App-level so they survive body switches
+  const [locationFilters, setLocationFilters] = useState<LocationFilters>(EMPTY_FILTERS);
   const [isHovering, setIsHovering] = useState<boolean>(false);
   const [isActivated, setIsActivated] = useState<boolean>(false);
   const [isTransitioning, setIsTransitioning] = useState<boolean>(false);
@@ -31,11 +65,63 @@ const App: React.FC = () => {
   // Mobile Panel Toggles
   const [mobileInfoVisible, setMobileInfoVisible] = useState(false);
   const [mobileListVisible, setMobileListVisible] = useState(false);
+  const [importReport, setImportReport] = useState<{ source: string; issues: DatasetIssue[]; note: string; summary?: string[] } | null>(null);
   
+  // Focus target for the plain-key shortcuts
+  const sceneRef = useRef<HTMLDivElement>(null);
   const globeRef = useRef<GlobeHandle>(null);
   const mapRef = useRef<SolarSystemMapHandle>(null);
+  // Filled by whichever view is mounted, read by CursorHUD
+  const cursorProjectionRef = useRef<CursorProjection | null>(null);
+
+  // URL state waiting to be applied once the target view and body data are mounted
+  const pendingUrlRef = useRef<UrlState | null>(initialUrl);
+  const [urlRestoreTick, setUrlRestoreTick] = useState(0);
+  const [cameraTick, setCameraTick] = useState(0);
+  const urlWriteTimerRef = useRef<number>(0);
+  // Bookmark camera applied after its view/body has mounted
+  const pendingBookmarkRef = useRef<CameraBookmark | null>(null);
+  const [bookmarkTick, setBookmarkTick] = useState(0);
+  // Search hit to fly to once its body's globe is mounted
+  const pendingFlyToRef = useRef<City | null>(null);
+  const [flyToTick, setFlyToTick] = useState(0);
   
-  const activeConfig = SOLAR_SYSTEM_DATA.find(b => b.id === activeBodyId) || SOLAR_SYSTEM_DATA[0];
+  const clock = useSimulationClock();
+  const dataset = useSolarSystemData();
+  const { bookmarks, addBookmark, removeBookmark, importBookmarks } = useBookmarks();
+  const bodies = dataset.bodies;
+  const registry = useMemo(() => createBodyRegistry(bodies), [bodies]);
+  const activeConfig = bodies.find(b => b.id === activeBodyId) || bodies[0];
+  const factions = useMemo(() => collectFactions(bodies), [bodies]);
+  // What the Globe draws; exports and the scene description keep using the unfiltered activeConfig
+  const filteredConfig = useMemo(
+    () => {
+      const data = applyLocationFilters(activeConfig.data, locationFilters);
+      return { ...activeConfig, data: showRoutes ? data : { ...data, routes: [] } };
+    },
+    [activeConfig, locationFilters, showRoutes]
+  );
+
+  const sceneTargets = useMemo<SceneTarget[]>(() => {
+    if (viewMode === 'ORBIT') {
+      return visibleTargets.flatMap(name => {
+        const city = activeConfig.data.cities.find(c => c.name === name);
+        return city ? [{ name: city.name, detail: [city.category, city.status].filter(Boolean).join(', ') }] : [];
+      });
+    }
+    return visibleTargets.flatMap(id => {
+      const body = registry.get(id);
+      return body ? [{ name: body.name, detail: body.type }] : [];
+    });
+  }, [viewMode, visibleTargets, activeConfig, registry]);
+
+  useEffect(() => { setVisibleTargets([]); setFocusedTarget(null); }, [viewMode, activeBodyId]);
+
+  // Hiding a category or faction also closes the detail panel of a selection it hides
+  useEffect(() => {
+    if (selectedItem && !isLocationVisible(selectedItem, locationFilters)) setSelectedItem(null);
+    if (selectedZone && !isLocationVisible(selectedZone, locationFilters)) setSelectedZone(null);
+  }, [locationFilters]);
 
   useEffect(() => {
     const checkDevice = () => {
@@ -65,6 +151,7 @@ const App: React.FC = () => {
     setIsActivated(false);
     setIsTransitioning(false);
     setSelectedItem(null);
+    setSelectedZone(null);
     setZoomLevel(30);
   }, []);
 
@@ -74,6 +161,68 @@ const App: React.FC = () => {
     return () => document.removeEventListener('fullscreenchange', onFsChange);
   }, [isActivated, isMobile]);
 
+  // --- URL STATE (deep links, back/forward) ---
+  useEffect(() => {
+    const pending = pendingUrlRef.current;
+    if (!pending) return;
+    if (pending.body && pending.body !== activeBodyId) { pendingUrlRef.current = null; return; }
+    const body = bodies.find(b => b.id === activeBodyId);
+    if (!body) return; // external dataset still loading
+
+    if (pending.zoom !== undefined) (viewMode === 'ORBIT' ? globeRef : mapRef).current?.setZoom(pending.zoom);
+    if (pending.rot && viewMode === 'ORBIT') globeRef.current?.setCamera({ rotation: pending.rot });
+
+    const city = pending.city ? body.data.cities.find(c => c.name === pending.city) : undefined;
+    const zone = pending.zone ? (body.data.zones || []).find(z => z.name === pending.zone) : undefined;
+    if (city) {
+      setSelectedItem(city);
+      if (!pending.rot) globeRef.current?.flyTo(city);
+    } else if (zone) {
+      setSelectedZone(zone);
+    }
+    // Selection may only exist in the external dataset; keep waiting for it
+    const unresolved = (pending.city && !city) || (pending.zone && !zone);
+    pendingUrlRef.current = unresolved ? { body: pending.body, city: pending.city, zone: pending.zone } : null;
+  }, [bodies, activeBodyId, viewMode, urlRestoreTick]);
+
+  useEffect(() => {
+    const onPopState = () => {
+      const state = parseUrlState(window.location.hash);
+      setViewMode(state.view || 'ORBIT');
+      setActiveBodyId(state.body || 'earth');
+      setSelectedItem(null);
+      setSelectedZone(null);
+      if (state.zoom !== undefined) setZoomLevel(state.zoom);
+      pendingUrlRef.current = state;
+      setUrlRestoreTick(t => t + 1);
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  useEffect(() => {
+    if (pendingUrlRef.current) return;
+    const state: UrlState = {
+      view: viewMode,
+      body: activeBodyId,
+      city: selectedItem?.name,
+      zone: selectedZone?.name,
+      zoom: zoomLevel,
+      rot: viewMode === 'ORBIT' ? globeRef.current?.getCamera().rotation : undefined,
+    };
+    const hash = serializeUrlState(state);
+    if (hash === window.location.hash) return;
+    window.clearTimeout(urlWriteTimerRef.current);
+    if (!window.location.hash) {
+      window.history.replaceState(null, '', hash);
+    } else if (isNavigationChange(parseUrlState(window.location.hash), state)) {
+      window.history.pushState(null, '', hash);
+    } else {
+      // Zoom and camera updates are frequent; browsers rate-limit history writes
+      urlWriteTimerRef.current = window.setTimeout(() => window.history.replaceState(null, '', hash), 300);
+    }
+  }, [viewMode, activeBodyId, selectedItem, selectedZone, zoomLevel, cameraTick, urlRestoreTick]);
+
   const handleZoomChange = (val: number) => {
     setZoomLevel(val);
     if (viewMode === 'ORBIT') globeRef.current?.setZoom(val);
@@ -83,106 +232,326 @@ const App: React.FC = () => {
   const handleBodySelection = (id: string) => {
     setActiveBodyId(id);
     setSelectedItem(null);
+    setSelectedZone(null);
     if (isMobile) setMobileListVisible(false);
   };
 
+  const handleSearchSelect = (entry: SearchEntry) => {
+    if (entry.kind === 'body') {
+      handleBodySelection(entry.bodyId);
+      return;
+    }
+    pendingUrlRef.current = null;
+    setActiveBodyId(entry.bodyId);
+    setViewMode('ORBIT');
+    handleCitySelect(entry.city);
+    pendingFlyToRef.current = entry.city;
+    setFlyToTick(t => t + 1);
+  };
+
+  useEffect(() => {
+    const city = pendingFlyToRef.current;
+    if (!city) return;
+    pendingFlyToRef.current = null;
+    // Runs after the globe's own reset-to-first-city effect for the new body
+    globeRef.current?.flyTo(city);
+  }, [flyToTick]);
+
   const handleMapSelection = (id: string) => {
     setActiveBodyId(id);
     setSelectedItem(null);
-    const detailedBodies = ['earth', 'moon', 'mars', 'belt', 'io', 'europa', 'ganymede', 'callisto'];
-    if (viewMode === 'SYSTEM' && detailedBodies.includes(id)) {
+    setSelectedZone(null);
+    if (viewMode === 'SYSTEM' && registry.hasOrbitView(id)) {
         setViewMode('ORBIT');
     }
   };
 
+  const handleLayerImport = async (file: File) => {
+    const bodyId = activeConfig.id;
+    const current = activeConfig.data;
+    const { data, issues, replaced } = await readLayerFile(file, bodyId, current);
+    // One line per kind: replaced with the file's entries, or kept as they were
+    const summary = data ? (['cities', 'routes', 'zones'] as const).map(kind => {
+      const before = current[kind]?.length ?? 0;
+      const after = data[kind]?.length ?? 0;
+      return replaced.includes(kind) ? `${kind.toUpperCase()} REPLACED // ${before} -> ${after}` : `${kind.toUpperCase()} KEPT // ${before}`;
+    }) : undefined;
+    setImportReport({ source: file.name, issues, note: 'LAYER UNCHANGED', summary });
+    if (data) {
+      dataset.updateBodyData(bodyId, data);
+      setSelectedItem(null);
+      setSelectedZone(null);
+    }
+  };
+
+  const handleLayerExport = () => {
+    downloadFile(`${activeConfig.id}-locations.geojson`, JSON.stringify(layerToGeoJson(activeConfig), null, 2), 'application/geo+json');
+  };
+
+  const handleBookmarkSave = (name: string) => {
+    addBookmark({
+      name,
+      body: activeBodyId,
+      view: viewMode,
+      zoomLevel,
+      globe: viewMode === 'ORBIT' ? globeRef.current?.getCamera() : undefined,
+      map: viewMode === 'SYSTEM' ? mapRef.current?.getCamera() : undefined,
+    });
+  };
+
+  const handleBookmarkGo = (bookmark: CameraBookmark) => {
+    pendingUrlRef.current = null;
+    setViewMode(bookmark.view);
+    setActiveBodyId(bookmark.body);
+    setSelectedItem(null);
+    setSelectedZone(null);
+    pendingBookmarkRef.current = bookmark;
+    setBookmarkTick(t => t + 1);
+  };
+
+  useEffect(() => {
+    const bookmark = pendingBookmarkRef.current;
+    if (!bookmark) return;
+    pendingBookmarkRef.current = null;
+    // Runs after the map's own focus effect, so the stored zoom wins
+    setZoomLevel(bookmark.zoomLevel);
+    if (bookmark.view === 'ORBIT' && bookmark.globe) globeRef.current?.setCamera(bookmark.globe, true);
+    if (bookmark.view === 'SYSTEM' && bookmark.map) mapRef.current?.setCamera(bookmark.map, true);
+  }, [bookmarkTick]);
+
+  const handleBookmarkImport = async (file: File) => {
+    const { bookmarks: incoming, issues } = await readBookmarkFile(file);
+    setImportReport({ source: file.name, issues, note: 'BOOKMARKS UNCHANGED' });
+    if (incoming) importBookmarks(incoming);
+  };
+
+  const handleBookmarkExport = () => {
+    downloadFile('bookmarks.json', bookmarksToJson(bookmarks), 'application/json');
+  };
+
   const handleCitySelect = (city: City) => {
     setSelectedItem(city);
+    setSelectedZone(null);
     if (isMobile) {
       setMobileInfoVisible(false);
       setMobileListVisible(false);
     }
   };
 
-  return (
-    <div 
-      ref={containerRef}
-      className={`
-        bg-[#121212] selection:bg-[#E42737] selection:text-white transition-all duration-700 ease-in-out
-        ${isActivated ? 'fixed inset-0 z-[99999] w-full h-[100dvh]' : 'relative w-full h-[600px] lg:h-screen overflow-hidden'}
-        ${isActivated && !isMobile ? 'cursor-none' : 'cursor-default'}
-      `}
-    >
-      <div className="absolute inset-0 pointer-events-none z-[5] bg-[url('https://grainy-gradients.vercel.app/noise.svg')] opacity-[0.03]"></div>
-      
-      {isMobile && (!isActivated || isTransitioning) && (
-        <>
-          <div className={`scanline z-[100] transition-opacity duration-500 ${isTransitioning ? 'opacity-100' : 'opacity-40'}`} />
-          <ActivationOverlay onActivate={handleActivate} isTransitioning={isTransitioning} />
-        </>
-      )}
-      
-      {isActivated && isMobile && <ExitButton onDeactivate={handleDeactivate} />}
-      {isActivated && !isMobile && <CursorHUD isHovering={isHovering} />}
+  const handleZoneSelect = (zone: Zone) => {
+    setSelectedZone(zone);
+    setSelectedItem(null);
+  };
+
+  const handleResetCamera = () => (viewMode === 'ORBIT' ? globeRef : mapRef).current?.resetCamera();
+
+  const handleScreenshot = async () => {
+    const image = await (viewMode === 'ORBIT' ? globeRef : mapRef).current?.captureImage();
+    if (image) downloadFile(`${activeConfig.id}-${viewMode.toLowerCase()}-${Date.now()}.png`, image);
+  };
 
+  // --- COMMAND PALETTE ---
+  const buildPaletteCommands = (): PaletteCommand[] => [
+    { id: 'view:orbit', group: 'VIEW', label: 'ORBIT VIEW', detail: activeConfig.name, run: () => setViewMode('ORBIT') },
+    { id: 'view:system', group: 'VIEW', label: 'SYSTEM MAP', run: () => setViewMode('SYSTEM') },
+    ...registry.navigable.map(body => ({ id: `body:${body.id}`, group: 'BODY' as const, label: body.name, detail: body.type, run: () => handleBodySelection(body.id) })),
+    ...buildSearchIndex(bodies).flatMap(entry => entry.kind === 'city'
+      ? [{ id: `target:${entry.bodyId}:${entry.label}`, group: 'TARGET' as const, label: entry.label, detail: entry.detail, run: () => handleSearchSelect(entry) }]
+      : []),
+    ...[0, 25, 50, 75, 100].map(value => ({ id: `zoom:${value}`, group: 'ZOOM' as const, label: `ZOOM ${value}%`, run: () => handleZoomChange(value) })),
+    ...bookmarks.map(bookmark => ({ id: `bookmark:${bookmark.id}`, group: 'BOOKMARK' as const, label: bookmark.name, detail: `${bookmark.view} // ${bookmark.body}`, run: () => handleBookmarkGo(bookmark) })),
+    { id: 'action:routes', group: 'ACTION', label: 'TOGGLE ROUTES', detail: showRoutes ? 'ROUTES ON' : 'ROUTES OFF', run: () => setShowRoutes(v => !v) },
+    { id: 'action:screenshot', group: 'ACTION', label: 'EXPORT SCREENSHOT', detail: 'PNG OF THE CURRENT VIEW', run: handleScreenshot },
+    { id: 'action:reset-camera', group: 'ACTION', label: 'RESET CAMERA', run: handleResetCamera },
+    { id: 'action:bookmark', group: 'ACTION', label: 'SAVE BOOKMARK', detail: `${activeConfig.name} // ${viewMode}`, run: () => handleBookmarkSave(`${activeConfig.name} // ${viewMode}`) },
+    { id: 'action:clock', group: 'ACTION', label: 'PAUSE / RESUME CLOCK', run: () => clock.toggle() },
+    { id: 'action:ephemeris', group: 'ACTION', label: 'TOGGLE EPHEMERIS', detail: ephemerisMode ? 'ON' : 'OFF', run: () => { setEphemerisMode(!ephemerisMode); setViewMode('SYSTEM'); } },
+    { id: 'action:describe', group: 'ACTION', label: 'TOGGLE TEXT DESCRIPTION', detail: describeMode ? 'ON' : 'OFF', run: () => setDescribeMode(v => !v) },
+    { id: 'action:shortcuts', group: 'ACTION', label: 'KEYBOARD BINDINGS', run: () => setShortcutsVisible(true) },
+  ];
+
+  // --- KEYBOARD ---
+  const rotateBy = (dx: number, dy: number) => {
+    if (viewMode === 'ORBIT') globeRef.current?.rotateBy(dx * 10, dy * 10);
+    else mapRef.current?.rotateBy(-dy * 5, dx * 10);
+  };
+  const cycleFocus = (step: number) => {
+    if (viewMode === 'ORBIT') setFocusedTarget(globeRef.current?.cycleFocus(step)?.name ?? null);
+    else {
+      const id = mapRef.current?.cycleFocus(step);
+      setFocusedTarget(id ? registry.get(id)?.name ?? id : null);
+    }
+  };
+
+  useKeyboardShortcuts({
+    ArrowLeft: () => rotateBy(-1, 0),
+    ArrowRight: () => rotateBy(1, 0),
+    ArrowUp: () => rotateBy(0, 1),
+    ArrowDown: () => rotateBy(0, -1),
+    '+': () => handleZoomChange(Math.min(100, zoomLevel + 10)),
+    '=': () => handleZoomChange(Math.min(100, zoomLevel + 10)),
+    '-': () => handleZoomChange(Math.max(0, zoomLevel - 10)),
+    Tab: () => cycleFocus(1),
+    'Shift+Tab': () => cycleFocus(-1),
+    Enter: () => (viewMode === 'ORBIT' ? globeRef.current?.selectFocused() : mapRef.current?.selectFocused()) ?? false,
+    Escape: () => {
+      if (shortcutsVisible) setShortcutsVisible(false);
+      else if (selectedItem || selectedZone) { setSelectedItem(null); setSelectedZone(null); }
+      else return false;
+    },
+    ...Object.fromEntries(registry.navigable.slice(0, 9).map((body, i) => [String(i + 1), () => handleBodySelection(body.id)])),
+    o: () => setViewMode('ORBIT'),
+    s: () => setViewMode('SYSTEM'),
+    ' ': () => clock.toggle(),
+    d: () => setDescribeMode(v => !v),
+    '?': () => setShortcutsVisible(v => !v),
+    'Mod+k': () => setPaletteVisible(v => !v),
+  }, isActivated, sceneRef);
+
+  return (
+    <CursorProjectionContext.Provider value={cursorProjectionRef}>
       <div 
+        ref={containerRef}
         className={`
-          absolute inset-0 transition-all duration-[1200ms] ease-out z-20
-          ${isActivated ? 'opacity-100 scale-100 blur-0 brightness-100' : 'opacity-40 scale-[0.98] blur-[2px] brightness-50 grayscale-[0.5]'}
+          bg-[#121212] selection:bg-[#E42737] selection:text-white transition-all duration-700 ease-in-out
+          ${isActivated ? 'fixed inset-0 z-[99999] w-full h-[100dvh]' : 'relative w-full h-[600px] lg:h-screen overflow-hidden'}
+          ${isActivated && !isMobile ? 'cursor-none' : 'cursor-default'}
         `}
       >
-        {viewMode === 'ORBIT' ? (
-            <div className="absolute inset-0">
-              <Globe 
-                  ref={globeRef}
-                  config={activeConfig} 
-                  onSelect={handleCitySelect}
-                  selectedCity={selectedItem}
-                  onHoverChange={setIsHovering}
-                  interactionsEnabled={isActivated}
+        <div className="absolute inset-0 pointer-events-none z-[5] bg-[url('https://grainy-gradients.vercel.app/noise.svg')] opacity-[0.03]"></div>
+      
+        {isMobile && (!isActivated || isTransitioning) && (
+          <>
+            <div className={`scanline z-[100] transition-opacity duration-500 ${isTransitioning ? 'opacity-100' : 'opacity-40'}`} />
+            <ActivationOverlay onActivate={handleActivate} isTransitioning={isTransitioning} />
+          </>
+        )}
+      
+        {isActivated && isMobile && <ExitButton onDeactivate={handleDeactivate} />}
+        {isActivated && !isMobile && <CursorHUD isHovering={isHovering} />}
+        {isActivated && <DatasetDiagnostics url={dataset.url} issues={dataset.issues} />}
+        {isActivated && shortcutsVisible && <ShortcutsOverlay onClose={() => setShortcutsVisible(false)} />}
+        {isActivated && paletteVisible && <CommandPalette commands={buildPaletteCommands()} onClose={() => setPaletteVisible(false)} />}
+        <SceneDescription
+            viewMode={viewMode}
+            body={activeConfig}
+            targets={sceneTargets}
+            selection={selectedItem || selectedZone}
+            focused={focusedTarget}
+            visible={isActivated && describeMode}
+            onClose={() => setDescribeMode(false)}
+        />
+        {isActivated && importReport && (
+          <DatasetDiagnostics url={importReport.source} issues={importReport.issues} title="IMPORT REJECTED" fallbackNote={importReport.note} />
+        )}
+        {isActivated && importReport?.summary && <ImportSummary source={importReport.source} lines={importReport.summary} />}
+
+        <div 
+          ref={sceneRef}
+          tabIndex={isActivated ? 0 : -1}
+          role="group"
+          aria-label="Scene. Arrow keys rotate, Tab cycles targets, Enter selects"
+          className={`
+            absolute inset-0 transition-all duration-[1200ms] ease-out z-20 outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-[#E42737]/40
+            ${isActivated ? 'opacity-100 scale-100 blur-0 brightness-100' : 'opacity-40 scale-[0.98] blur-[2px] brightness-50 grayscale-[0.5]'}
+          `}
+        >
+          {viewMode === 'ORBIT' ? (
+              <div className="absolute inset-0">
+                <Globe 
+                    ref={globeRef}
+                    config={filteredConfig} 
+                    clock={clock}
+                    onSelect={handleCitySelect}
+                    selectedCity={selectedItem}
+                    onHoverChange={setIsHovering}
+                    interactionsEnabled={isActivated}
+                    onSelectZone={handleZoneSelect}
+                    selectedZone={selectedZone}
+                    onCameraChange={() => setCameraTick(t => t + 1)}
+                    onZoomAutoChange={setZoomLevel}
+                    onVisibleTargetsChange={setVisibleTargets}
+                    autoRotate={!staticScene}
+                />
+                <BodyInfo config={activeConfig} forceVisible={isMobile && mobileInfoVisible} />
+                <LocationList 
+                    data={activeConfig.data}
+                    filters={locationFilters}
+                    onSelect={(city) => { handleCitySelect(city); globeRef.current?.flyTo(city); }} 
+                    selectedCity={selectedItem}
+                    forceVisible={isMobile && mobileListVisible}
+                    onImportGeoJson={handleLayerImport}
+                    onExportGeoJson={handleLayerExport}
+                />
+                {isActivated && (
+                  <div className="absolute bottom-40 right-6 md:right-10 z-30">
+                    <Legend
+                        filters={locationFilters}
+                        factions={factions}
+                        onToggleCategory={(category: LocationCategory) => setLocationFilters(f => ({ ...f, hiddenCategories: toggleListValue(f.hiddenCategories, category) }))}
+                        onToggleFaction={(faction) => setLocationFilters(f => ({ ...f, hiddenFactions: toggleListValue(f.hiddenFactions, faction) }))}
+                        onReset={() => setLocationFilters(EMPTY_FILTERS)}
+                    />
+                  </div>
+                )}
+                {selectedItem && <DetailPanel data={selectedItem} onClose={() => setSelectedItem(null)} animate={!staticScene} />}
+                {selectedZone && <DetailPanel data={selectedZone} onClose={() => setSelectedZone(null)} animate={!staticScene} />}
+              </div>
+          ) : (
+              <div className="absolute inset-0">
+                 <SolarSystemMap 
+                    ref={mapRef}
+                    bodies={bodies} 
+                    clock={clock}
+                    currentBodyId={activeBodyId}
+                    onSelect={handleMapSelection} 
+                    onHoverChange={setIsHovering}
+                    onZoomAutoChange={setZoomLevel}
+                    interactionsEnabled={isActivated}
+                    ephemerisMode={ephemerisMode}
+                    onVisibleTargetsChange={setVisibleTargets}
+                 />
+                 <BodyInfo config={activeConfig} forceVisible={isMobile && mobileInfoVisible} />
+                 <SystemList bodies={bodies} onSelect={handleBodySelection} forceVisible={isMobile && mobileListVisible} />
+              </div>
+          )}
+          {isActivated && (
+              <BookmarkPanel
+                  bookmarks={bookmarks}
+                  onGo={handleBookmarkGo}
+                  onSave={handleBookmarkSave}
+                  onRemove={removeBookmark}
+                  onImport={handleBookmarkImport}
+                  onExport={handleBookmarkExport}
+                  defaultName={`${activeConfig.name} // ${viewMode}`}
               />
-              <BodyInfo config={activeConfig} forceVisible={isMobile && mobileInfoVisible} />
-              <LocationList 
-                  data={activeConfig.data}
-                  onSelect={(city) => { handleCitySelect(city); globeRef.current?.flyTo(city); }} 
-                  selectedCity={selectedItem}
-                  forceVisible={isMobile && mobileListVisible}
+          )}
+        </div>
+
+        {(isActivated || (!isMobile && !isTransitioning)) && (
+          <div className={`absolute inset-0 pointer-events-none z-40 transition-opacity duration-1000 ${isActivated ? 'opacity-100' : 'opacity-0'}`}>
+              <SystemNav 
+                  bodies={bodies} 
+                  currentBodyId={activeBodyId} 
+                  viewMode={viewMode}
+                  zoomLevel={zoomLevel}
+                  clock={clock}
+                  ephemerisMode={ephemerisMode}
+                  onToggleEphemeris={() => setEphemerisMode(!ephemerisMode)}
+                  describeMode={describeMode}
+                  onToggleDescribeMode={() => setDescribeMode(!describeMode)}
+                  onViewModeChange={setViewMode}
+                  onSelectBody={handleBodySelection}
+                  onSearchSelect={handleSearchSelect}
+                  onZoomChange={handleZoomChange}
+                  onToggleMobileInfo={() => { setMobileInfoVisible(!mobileInfoVisible); setMobileListVisible(false); }}
+                  onToggleMobileList={() => { setMobileListVisible(!mobileListVisible); setMobileInfoVisible(false); }}
+                  isMobile={isMobile}
               />
-              {selectedItem && <DetailPanel data={selectedItem} onClose={() => setSelectedItem(null)} />}
-            </div>
-        ) : (
-            <div className="absolute inset-0">
-               <SolarSystemMap 
-                  ref={mapRef}
-                  bodies={SOLAR_SYSTEM_DATA} 
-                  currentBodyId={activeBodyId}
-                  onSelect={handleMapSelection} 
-                  onHoverChange={setIsHovering}
-                  onZoomAutoChange={setZoomLevel}
-                  interactionsEnabled={isActivated}
-               />
-               <BodyInfo config={activeConfig} forceVisible={isMobile && mobileInfoVisible} />
-               <SystemList bodies={SOLAR_SYSTEM_DATA} onSelect={handleBodySelection} forceVisible={isMobile && mobileListVisible} />
-            </div>
+          </div>
         )}
       </div>
-
-      {(isActivated || (!isMobile && !isTransitioning)) && (
-        <div className={`absolute inset-0 pointer-events-none z-40 transition-opacity duration-1000 ${isActivated ? 'opacity-100' : 'opacity-0'}`}>
-            <SystemNav 
-                bodies={SOLAR_SYSTEM_DATA} 
-                currentBodyId={activeBodyId} 
-                viewMode={viewMode}
-                zoomLevel={zoomLevel}
-                onViewModeChange={setViewMode}
-                onSelectBody={handleBodySelection}
-                onZoomChange={handleZoomChange}
-                onToggleMobileInfo={() => { setMobileInfoVisible(!mobileInfoVisible); setMobileListVisible(false); }}
-                onToggleMobileList={() => { setMobileListVisible(!mobileListVisible); setMobileInfoVisible(false); }}
-                isMobile={isMobile}
-            />
-        </div>
-      )}
-    </div>
+    </CursorProjectionContext.Provider>
   );
 };
 
@@ -0,0 +1,82 @@
+import React, { useState, useRef } from 'react';
+import { Bookmark, BookmarkPlus, Upload, Download, X } from 'lucide-react';
+import { CameraBookmark } from '../../types/index.ts';
+
+interface BookmarkPanelProps {
+  bookmarks: CameraBookmark[];
+  onGo: (bookmark: CameraBookmark) => void;
+  onSave: (name: string) => void;
+  onRemove: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  defaultName: string;
+}
+
+export const BookmarkPanel: React.FC<BookmarkPanelProps> = ({ bookmarks, onGo, onSave, onRemove, onImport, onExport, defaultName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    onSave(name.trim() || defaultName);
+    setName('');
+  };
+
+  return (
+    <div className="absolute bottom-40 left-6 md:left-10 w-[240px] pointer-events-none z-30 font-mono hidden md:block">
+       <div className="w-full pointer-events-auto flex flex-col">
+           {/* Panel Title */}
+           <div className="mb-2 flex items-center justify-between">
+              <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 group" aria-expanded={isOpen} aria-label={`Bookmarks, ${bookmarks.length} saved`}>
+                  <Bookmark size={10} className={isOpen ? 'text-[#E42737]' : 'text-white/20 group-hover:text-white/60'} />
+                  <span className="text-[9px] font-black tracking-[0.4em] text-[#E42737] uppercase">BOOKMARKS</span>
+                  <span className="text-[8px] text-white/20 tracking-[0.2em]">[{bookmarks.length}]</span>
+              </button>
+              {isOpen && (
+                  <div className="flex items-center gap-1">
+                      <button onClick={() => fileInputRef.current?.click()} className="p-1 text-white/20 hover:text-[#E42737] transition-colors" title="IMPORT BOOKMARKS" aria-label="Import bookmarks"><Upload size={10} /></button>
+                      <button onClick={onExport} className="p-1 text-white/20 hover:text-[#E42737] transition-colors" title="EXPORT BOOKMARKS" aria-label="Export bookmarks"><Download size={10} /></button>
+                      <input
+                          ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" aria-label="Bookmarks file"
+                          onChange={(e) => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }}
+                      />
+                  </div>
+              )}
+           </div>
+
+           {isOpen && (
+             <>
+               {/* Save current framing */}
+               <div className="relative mb-4">
+                    <input
+                        type="text"
+                        placeholder={defaultName}
+                        aria-label="Bookmark name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                        className="w-full bg-transparent border-b border-white/10 text-white text-[10px] py-1 pr-5 outline-none focus:border-[#E42737] placeholder:text-white/20 uppercase tracking-[0.3em] transition-all font-bold"
+                    />
+                    <button onClick={handleSave} className="absolute right-0 top-1/2 -translate-y-1/2 text-white/20 hover:text-[#E42737] transition-colors" title="SAVE VIEW" aria-label="Save current view as bookmark"><BookmarkPlus size={12} /></button>
+               </div>
+
+               <div className="max-h-[30vh] overflow-y-auto overflow-x-hidden custom-scroll space-y-1 pr-4">
+                  {bookmarks.length === 0 && (
+                      <span className="text-[8px] text-white/20 tracking-[0.3em] uppercase">NO SAVED VIEWS</span>
+                  )}
+                  {bookmarks.map((bookmark) => (
+                    <div key={bookmark.id} className="flex items-center justify-between group">
+                      <button onClick={() => onGo(bookmark)} className="flex-1 text-left py-1.5 opacity-40 hover:opacity-100 transition-all duration-300 flex flex-col items-start min-w-0">
+                        <span className="text-[10px] tracking-[0.2em] uppercase font-black text-white truncate max-w-full">{bookmark.name}</span>
+                        <span className="text-[7px] text-white/30 tracking-[0.2em] uppercase mt-0.5">{bookmark.view} // {bookmark.body} // {bookmark.zoomLevel}%</span>
+                      </button>
+                      <button onClick={() => onRemove(bookmark.id)} className="p-1 text-white/0 group-hover:text-white/30 hover:!text-[#E42737] transition-colors" title="DELETE" aria-label={`Delete bookmark ${bookmark.name}`}><X size={10} /></button>
+                    </div>
+                  ))}
+               </div>
+             </>
+           )}
+       </div>
+    </div>
+  );
+};
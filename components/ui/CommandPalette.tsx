@@ -0,0 +1,100 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Command } from 'lucide-react';
+import { fuzzyScore } from '../../utils/search.ts';
+
+export interface PaletteCommand {
+  id: string;
+  group: 'BODY' | 'TARGET' | 'VIEW' | 'ZOOM' | 'BOOKMARK' | 'ACTION';
+  label: string;
+  detail?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+// Ctrl/Cmd+K launcher. Commands are built by App so every entry goes through the existing handlers.
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return commands;
+    return commands
+      .flatMap(command => {
+        const score = Math.max(fuzzyScore(query, command.label) ?? -1, (fuzzyScore(query, `${command.group} ${command.label}`) ?? -1) - 100);
+        return score < 0 ? [] : [{ command, score }];
+      })
+      .sort((a, b) => b.score - a.score)
+      .map(r => r.command);
+  }, [commands, query]);
+
+  useEffect(() => { inputRef.current?.focus(); }, []);
+  useEffect(() => { setActive(0); }, [query]);
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const run = (command: PaletteCommand) => { onClose(); command.run(); };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') { e.preventDefault(); setActive(a => Math.min(results.length - 1, a + 1)); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setActive(a => Math.max(0, a - 1)); }
+    else if (e.key === 'Enter' && results[active]) { e.preventDefault(); run(results[active]); }
+    else if (e.key === 'Escape') { e.preventDefault(); onClose(); }
+  };
+
+  return (
+    <div className="absolute inset-0 z-[80] flex items-start justify-center pt-[15vh] bg-black/40 font-mono pointer-events-auto animate-fade-in" onClick={onClose}>
+      <div role="dialog" aria-modal="true" aria-label="Command palette" className="w-[420px] max-w-[90%] bg-[#121212]/90 backdrop-blur-sm border border-[#E42737]/50 shadow-[0_0_20px_rgba(0,0,0,0.5)] p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-2 pb-2 mb-3 border-b border-[#E42737]/20">
+          <Command size={12} className="text-[#E42737] shrink-0" />
+          <input
+              ref={inputRef}
+              type="text"
+              placeholder="EXECUTE_COMMAND"
+              aria-label="Command"
+              role="combobox"
+              aria-expanded={results.length > 0}
+              aria-controls="command-palette-results"
+              aria-activedescendant={results[active] ? `command-option-${active}` : undefined}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="flex-1 bg-transparent text-white text-[10px] py-1 outline-none placeholder:text-white/20 uppercase tracking-[0.3em] font-bold"
+          />
+          <span className="text-[8px] text-white/20 tracking-[0.2em]">ESC</span>
+        </div>
+
+        <ul ref={listRef} id="command-palette-results" role="listbox" aria-label="Commands" className="max-h-[45vh] overflow-y-auto custom-scroll">
+          {results.length === 0 && (
+            <li className="text-[8px] text-white/20 tracking-[0.3em] uppercase py-1">NO MATCHING COMMAND</li>
+          )}
+          {results.map((command, i) => (
+            <li
+                key={command.id}
+                id={`command-option-${i}`}
+                data-index={i}
+                role="option"
+                aria-selected={i === active}
+                onMouseEnter={() => setActive(i)}
+                onClick={() => run(command)}
+                className={`flex items-center justify-between gap-4 py-1.5 px-2 cursor-pointer border-l-2 transition-colors ${i === active ? 'border-[#E42737] bg-[#E42737]/10' : 'border-transparent'}`}
+            >
+              <div className="flex flex-col min-w-0">
+                <span className={`text-[10px] tracking-[0.2em] uppercase font-black truncate ${i === active ? 'text-white' : 'text-white/60'}`}>{command.label}</span>
+                {command.detail && <span className="text-[7px] text-white/30 tracking-[0.2em] uppercase mt-0.5 truncate">{command.detail}</span>}
+              </div>
+              <span className="text-[8px] text-[#E42737]/60 font-black tracking-[0.2em] shrink-0">{command.group}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
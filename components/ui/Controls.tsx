@@ -31,6 +31,8 @@ export const Controls: React.FC = () => {
 
         <button 
             onClick={() => setIsOpen(!isOpen)}
+            aria-expanded={isOpen}
+            aria-label="Control guide"
             className={`
                 flex items-center gap-2 px-3 py-3 border transition-all duration-300
                 ${isOpen ? 'bg-[#E42737] border-[#E42737] text-black' : 'bg-[#121212] border-[#E42737]/50 text-[#E42737] hover:bg-[#E42737]/10'}
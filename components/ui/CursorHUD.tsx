@@ -1,5 +1,6 @@
 
 import React, { useEffect, useRef } from 'react';
+import { formatCursorReadout, useCursorProjection } from '../../hooks/useCursorProjection.ts';
 
 interface CursorHUDProps {
   isHovering?: boolean;
@@ -10,6 +11,7 @@ export const CursorHUD: React.FC<CursorHUDProps> = ({ isHovering = false }) => {
   const textRef = useRef<HTMLDivElement>(null);
   const xLineRef = useRef<HTMLDivElement>(null);
   const yLineRef = useRef<HTMLDivElement>(null);
+  const projection = useCursorProjection();
 
   useEffect(() => {
     const updateCursor = (e: MouseEvent) => {
@@ -27,7 +29,9 @@ export const CursorHUD: React.FC<CursorHUDProps> = ({ isHovering = false }) => {
       }
       if (textRef.current) {
          if (!isHovering) {
-            textRef.current.innerText = `TGT: ${x.toString().padStart(4, '0')} // ${y.toString().padStart(4, '0')}`;
+            // Off the globe disc (or before a view has published its projection) there is nothing to read
+            const readout = projection.current?.read(x, y);
+            textRef.current.innerText = readout ? `TGT: ${formatCursorReadout(readout)}` : 'TGT: -- // --';
          } else {
             textRef.current.innerText = "LOCK ACQUIRED";
          }
@@ -36,7 +40,7 @@ export const CursorHUD: React.FC<CursorHUDProps> = ({ isHovering = false }) => {
 
     window.addEventListener('mousemove', updateCursor);
     return () => window.removeEventListener('mousemove', updateCursor);
-  }, [isHovering]);
+  }, [isHovering, projection]);
 
   return (
     <div className="fixed inset-0 pointer-events-none z-[60] overflow-hidden">
@@ -0,0 +1,44 @@
+
+import React, { useState, useEffect } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { DatasetIssue, formatIssue } from '../../data/validation.ts';
+
+interface DatasetDiagnosticsProps {
+  url: string | null;
+  issues: DatasetIssue[];
+  title?: string;
+  fallbackNote?: string;
+}
+
+const MAX_VISIBLE = 5;
+
+export const DatasetDiagnostics: React.FC<DatasetDiagnosticsProps> = ({ url, issues, title = 'DATASET REJECTED', fallbackNote = 'BUILT-IN DATA ACTIVE' }) => {
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => { setDismissed(false); }, [issues]);
+
+  if (issues.length === 0 || dismissed) return null;
+
+  return (
+    <div className="absolute top-10 left-1/2 -translate-x-1/2 w-[420px] max-w-[90%] z-[70] font-mono pointer-events-auto animate-fade-in">
+      <div role="alert" className="bg-[#121212]/80 backdrop-blur-sm border border-[#E42737]/50 shadow-[0_0_20px_rgba(0,0,0,0.5)] p-3">
+        <div className="flex items-center justify-between pb-2 mb-2 border-b border-[#E42737]/20">
+          <div className="flex items-center gap-2 text-[#E42737]">
+            <AlertTriangle size={12} />
+            <span className="text-[10px] font-black tracking-[0.2em]">{title} // {issues.length} ERR</span>
+          </div>
+          <button onClick={() => setDismissed(true)} className="text-white/20 hover:text-white transition-colors p-1" aria-label="Dismiss diagnostics"><X size={12} /></button>
+        </div>
+        <div className="text-[8px] text-white/30 tracking-[0.2em] uppercase mb-2 truncate">{url} // {fallbackNote}</div>
+        <div className="space-y-1 border-l border-white/10 pl-3">
+          {issues.slice(0, MAX_VISIBLE).map((issue, idx) => (
+            <div key={idx} className="text-[9px] text-white/60 break-all">{formatIssue(issue)}</div>
+          ))}
+          {issues.length > MAX_VISIBLE && (
+            <div className="text-[9px] text-white/30">+{issues.length - MAX_VISIBLE} MORE (SEE CONSOLE)</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
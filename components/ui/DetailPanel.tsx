@@ -1,19 +1,22 @@
 
 import React, { useEffect, useState } from 'react';
 import { X, Activity } from 'lucide-react';
-import { City } from '../../types/index.ts';
+import { City, Zone } from '../../types/index.ts';
 
 interface DetailPanelProps {
-  data: City;
+  data: City | Zone;
   onClose: () => void;
+  // Typewriter effect; off in description mode / reduced motion
+  animate?: boolean;
 }
 
-export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose }) => {
+export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose, animate = true }) => {
   const [typedDesc, setTypedDesc] = useState('');
+  const fullText = data.description || 'No data available.';
 
   useEffect(() => {
+    if (!animate) { setTypedDesc(fullText); return; }
     setTypedDesc('');
-    const fullText = data.description || 'No data available.';
     let i = 0;
     const interval = setInterval(() => {
         setTypedDesc(fullText.substring(0, i + 1));
@@ -21,16 +24,17 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose }) => {
         if (i >= fullText.length) clearInterval(interval);
     }, 15);
     return () => clearInterval(interval);
-  }, [data]);
+  }, [fullText, animate]);
 
+  const isZone = 'geometry' in data;
   const statusColor = data.status?.includes('OPTIMAL') || data.status?.includes('ONLINE') ? 'text-cyan-400' : 'text-red-500';
 
   return (
     <div className="absolute z-50 w-[240px] font-mono pointer-events-none top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 md:top-24 md:right-72 md:left-auto md:translate-x-0 md:translate-y-0">
-      <div className="pointer-events-auto flex flex-col items-start">
+      <div role="region" aria-label={`${isZone ? 'Zone' : 'Location'} details: ${data.name}`} className="pointer-events-auto flex flex-col items-start">
          <div className="w-full flex justify-between items-center mb-4 pb-1 border-b border-white/10">
-            <span className="text-[9px] font-black tracking-[0.3em] text-[#E42737]">EXTRACTED.DAT</span>
-            <button onClick={onClose} className="text-white/20 hover:text-white transition-colors p-1"><X size={12} /></button>
+            <span className="text-[9px] font-black tracking-[0.3em] text-[#E42737]">{isZone ? 'ZONE.DAT' : 'EXTRACTED.DAT'}</span>
+            <button onClick={onClose} className="text-white/20 hover:text-white transition-colors p-1" aria-label="Close details"><X size={12} /></button>
          </div>
 
          <div className="w-full space-y-4">
@@ -47,15 +51,21 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ data, onClose }) => {
                     <span className="text-white/20 uppercase">TYPE</span>
                     <span className="text-white/60">{data.type || 'N/A'}</span>
                 </div>
+                <div className="flex justify-between">
+                    <span className="text-white/20 uppercase">FACTION</span>
+                    <span className="text-white/60">{data.faction || 'N/A'}</span>
+                </div>
                 <div className="flex justify-between">
                     <span className="text-white/20 uppercase">POP</span>
                     <span className="text-white/60">{data.population || '0'}</span>
                 </div>
             </div>
 
-            <div className="text-[10px] text-white/50 leading-relaxed font-medium border-t border-white/5 pt-3">
+            {/* Screen readers get the whole text at once instead of the typewriter stream */}
+            <p className="sr-only">{fullText}</p>
+            <div aria-hidden="true" className="text-[10px] text-white/50 leading-relaxed font-medium border-t border-white/5 pt-3">
                 {typedDesc}
-                <span className="inline-block w-1 h-2.5 bg-[#E42737] ml-1 animate-pulse"></span>
+                {animate && <span className="inline-block w-1 h-2.5 bg-[#E42737] ml-1 animate-pulse"></span>}
             </div>
          </div>
       </div>
@@ -26,6 +26,7 @@ export const ExitButton: React.FC<ExitButtonProps> = ({ onDeactivate }) => {
               }}
               className="flex items-center justify-center w-8 h-8 md:w-12 md:h-12 bg-[#E42737] text-black shadow-[0_0_20px_rgba(228,39,55,0.4)] transition-all hover:scale-110 active:scale-90 pointer-events-auto border border-white/20"
               title="Terminate session"
+              aria-label="Exit full-screen map"
             >
               <X className="w-4 h-4 md:w-6 md:h-6" strokeWidth={3} />
             </button>
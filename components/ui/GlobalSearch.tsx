@@ -0,0 +1,88 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { CelestialBodyConfig } from '../../types/index.ts';
+import { SearchEntry, buildSearchIndex, searchEntries } from '../../utils/search.ts';
+
+interface GlobalSearchProps {
+  bodies: CelestialBodyConfig[];
+  onSelect: (entry: SearchEntry) => void;
+}
+
+// Nav-rail search across every body; the popover opens upwards above the rail
+export const GlobalSearch: React.FC<GlobalSearchProps> = ({ bodies, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const index = useMemo(() => buildSearchIndex(bodies), [bodies]);
+  const hits = useMemo(() => searchEntries(index, query), [index, query]);
+
+  useEffect(() => { setActive(0); }, [query]);
+  useEffect(() => { if (isOpen) inputRef.current?.focus(); }, [isOpen]);
+
+  const close = () => { setIsOpen(false); setQuery(''); };
+  const choose = (entry: SearchEntry) => { onSelect(entry); close(); };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') { e.preventDefault(); setActive(a => Math.min(hits.length - 1, a + 1)); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setActive(a => Math.max(0, a - 1)); }
+    else if (e.key === 'Enter' && hits[active]) choose(hits[active].entry);
+    else if (e.key === 'Escape') close();
+  };
+
+  return (
+    <div className="relative font-mono">
+      <button
+          onClick={() => (isOpen ? close() : setIsOpen(true))}
+          className={`transition-colors duration-300 ${isOpen ? 'text-[#E42737]' : 'text-white/20 hover:text-white/50'}`}
+          title="SEARCH SYSTEM"
+          aria-label="Search all bodies and locations"
+          aria-expanded={isOpen}
+      ><Search size={18} /></button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-4 w-[280px] bg-[#121212]/95 backdrop-blur-xl p-3 border border-[#E42737]/50 shadow-[0_0_30px_rgba(0,0,0,0.8)] animate-fade-in z-[110]">
+          <div className="relative mb-2">
+            <input
+                ref={inputRef}
+                type="text"
+                placeholder="SCAN_SYSTEM"
+                aria-label="Search query"
+                role="combobox"
+                aria-expanded={hits.length > 0}
+                aria-controls="global-search-results"
+                aria-activedescendant={hits[active] ? `global-search-hit-${active}` : undefined}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleKeyDown}
+                className="w-full bg-transparent border-b border-white/10 text-white text-[10px] py-1 pr-5 outline-none focus:border-[#E42737] placeholder:text-white/20 uppercase tracking-[0.3em] transition-all font-bold"
+            />
+            <button onClick={close} className="absolute right-0 top-1/2 -translate-y-1/2 text-white/20 hover:text-white transition-colors" aria-label="Close search"><X size={12} /></button>
+          </div>
+
+          <ul id="global-search-results" role="listbox" aria-label="Search results" className="max-h-[40vh] overflow-y-auto custom-scroll">
+            {query.trim() && hits.length === 0 && (
+              <li className="text-[8px] text-white/20 tracking-[0.3em] uppercase py-1">NO MATCH</li>
+            )}
+            {hits.map(({ entry }, i) => (
+              <li
+                  key={`${entry.kind}:${entry.bodyId}:${entry.label}`}
+                  id={`global-search-hit-${i}`}
+                  role="option"
+                  aria-selected={i === active}
+                  onMouseEnter={() => setActive(i)}
+                  onClick={() => choose(entry)}
+                  className={`flex flex-col py-1.5 px-1 cursor-pointer transition-colors ${i === active ? 'bg-[#E42737]/10' : ''}`}
+              >
+                <span className={`text-[10px] tracking-[0.2em] uppercase font-black ${i === active ? 'text-[#E42737]' : 'text-white'}`}>{entry.label}</span>
+                <span className="text-[7px] text-white/30 tracking-[0.2em] uppercase mt-0.5">{entry.kind === 'body' ? 'BODY' : 'SITE'} // {entry.detail}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React, { useState, useEffect } from 'react';
+import { CheckCircle2, X } from 'lucide-react';
+
+interface ImportSummaryProps {
+  source: string;
+  lines: string[];
+}
+
+// Confirms an accepted import and what it changed; rejections go through DatasetDiagnostics
+export const ImportSummary: React.FC<ImportSummaryProps> = ({ source, lines }) => {
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => { setDismissed(false); }, [lines]);
+
+  if (lines.length === 0 || dismissed) return null;
+
+  return (
+    <div className="absolute top-10 left-1/2 -translate-x-1/2 w-[420px] max-w-[90%] z-[70] font-mono pointer-events-auto animate-fade-in">
+      <div role="status" className="bg-[#121212]/80 backdrop-blur-sm border border-white/20 shadow-[0_0_20px_rgba(0,0,0,0.5)] p-3">
+        <div className="flex items-center justify-between pb-2 mb-2 border-b border-white/10">
+          <div className="flex items-center gap-2 text-white/80">
+            <CheckCircle2 size={12} />
+            <span className="text-[10px] font-black tracking-[0.2em]">LAYER IMPORTED</span>
+          </div>
+          <button onClick={() => setDismissed(true)} className="text-white/20 hover:text-white transition-colors p-1" aria-label="Dismiss import summary"><X size={12} /></button>
+        </div>
+        <div className="text-[8px] text-white/30 tracking-[0.2em] uppercase mb-2 truncate">{source}</div>
+        <div className="space-y-1 border-l border-white/10 pl-3">
+          {lines.map((line, idx) => (
+            <div key={idx} className="text-[9px] text-white/60 tracking-[0.1em]">{line}</div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,49 +1,104 @@
-
 import React, { useState } from 'react';
-import { ChevronUp, ChevronDown, List } from 'lucide-react';
+import { LocationCategory } from '../../types/index.ts';
+import { CATEGORY_COLORS } from '../../data/constants.ts';
+import { LocationFilters, hasActiveFilters } from '../../utils/filters.ts';
+
+const CATEGORY_LABELS: Record<LocationCategory, string> = {
+  ICE: 'ICE NODE',
+  AC: 'AC POST',
+  WILD: 'WILD/CLF',
+  MILITARY: 'MILITARY',
+  ANOMALY: 'ANOMALY',
+};
+
+interface LegendProps {
+  filters: LocationFilters;
+  factions: string[];
+  onToggleCategory: (category: LocationCategory) => void;
+  onToggleFaction: (faction: string) => void;
+  onReset: () => void;
+}
 
-export const Legend: React.FC = () => {
+export const Legend: React.FC<LegendProps> = ({ filters, factions, onToggleCategory, onToggleFaction, onReset }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const filtered = hasActiveFilters(filters);
 
-  const categories = [
-    { name: 'ICE NODE', color: '#00FFFF' },
-    { name: 'AC POST', color: '#f472b6' },
-    { name: 'ANOMALY', color: '#ef4444' },
-    { name: 'WILD/CLF', color: '#94a3b8' },
-  ];
+  const categories = (Object.keys(CATEGORY_COLORS) as LocationCategory[]).map(key => ({ key, name: CATEGORY_LABELS[key], color: CATEGORY_COLORS[key] }));
 
   return (
     <div className="relative font-mono pointer-events-auto">
         {/* Expanded Content */}
         {isOpen && (
-            <div className="absolute bottom-full left-0 mb-2 w-48 bg-[#121212]/95 backdrop-blur-xl p-3 border border-[#E42737]/50 shadow-[0_0_30px_rgba(0,0,0,0.8)] animate-fade-in z-[110]">
+            <div className="absolute bottom-full right-0 mb-2 w-48 bg-[#121212]/95 backdrop-blur-xl p-3 border border-[#E42737]/50 shadow-[0_0_30px_rgba(0,0,0,0.8)] animate-fade-in z-[110]">
                 <div className="flex items-center justify-between pb-2 mb-2 border-b border-[#E42737]/20">
                     <span className="text-[10px] font-bold tracking-[0.2em] text-[#E42737]">DATA KEY</span>
+                    {filtered && (
+                        <button onClick={onReset} className="text-[8px] text-white/40 hover:text-white tracking-[0.2em] font-bold transition-colors" aria-label="Show all categories and factions">RESET</button>
+                    )}
                 </div>
-                <div className="space-y-2">
-                    {categories.map((cat) => (
-                        <div key={cat.name} className="flex items-center space-x-3">
-                            <div className="flex items-center justify-center w-4 h-4">
-                                <div 
-                                    className="w-2.5 h-2.5 rounded-full border border-white/20"
-                                    style={{ backgroundColor: cat.color, boxShadow: `0 0 8px ${cat.color}` }}
-                                ></div>
-                            </div>
-                            <h3 className="text-[9px] text-slate-300 tracking-wider font-bold">{cat.name}</h3>
-                        </div>
-                    ))}
+                <div className="space-y-1">
+                    {categories.map((cat) => {
+                        const hidden = filters.hiddenCategories.includes(cat.key);
+                        return (
+                            <button
+                                key={cat.key}
+                                onClick={() => onToggleCategory(cat.key)}
+                                aria-pressed={!hidden}
+                                aria-label={`${hidden ? 'Show' : 'Hide'} ${cat.name} locations`}
+                                className={`w-full flex items-center space-x-3 transition-opacity ${hidden ? 'opacity-30 hover:opacity-60' : 'opacity-100'}`}
+                            >
+                                <div className="flex items-center justify-center w-4 h-4">
+                                    <div
+                                        className="w-2.5 h-2.5 rounded-full border border-white/20"
+                                        style={{ backgroundColor: hidden ? 'transparent' : cat.color, boxShadow: hidden ? 'none' : `0 0 8px ${cat.color}` }}
+                                    ></div>
+                                </div>
+                                <h3 className={`text-[9px] tracking-wider font-bold ${hidden ? 'text-slate-500 line-through' : 'text-slate-300'}`}>{cat.name}</h3>
+                            </button>
+                        );
+                    })}
                 </div>
+
+                {factions.length > 0 && (
+                    <>
+                        <div className="pb-2 mt-3 mb-2 border-b border-[#E42737]/20">
+                            <span className="text-[10px] font-bold tracking-[0.2em] text-[#E42737]">FACTIONS</span>
+                        </div>
+                        <div className="max-h-[25vh] overflow-y-auto custom-scroll space-y-1">
+                            {factions.map((faction) => {
+                                const hidden = filters.hiddenFactions.includes(faction);
+                                return (
+                                    <button
+                                        key={faction}
+                                        onClick={() => onToggleFaction(faction)}
+                                        aria-pressed={!hidden}
+                                        aria-label={`${hidden ? 'Show' : 'Hide'} faction ${faction}`}
+                                        className={`w-full flex items-center space-x-3 transition-opacity ${hidden ? 'opacity-30 hover:opacity-60' : 'opacity-100'}`}
+                                    >
+                                        <div className="flex items-center justify-center w-4 h-4">
+                                            <div className={`w-2 h-2 border border-white/40 ${hidden ? '' : 'bg-white/60'}`}></div>
+                                        </div>
+                                        <h3 className={`text-[9px] tracking-wider font-bold uppercase ${hidden ? 'text-slate-500 line-through' : 'text-slate-300'}`}>{faction}</h3>
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </>
+                )}
             </div>
         )}
 
-        <button 
+        <button
             onClick={() => setIsOpen(!isOpen)}
+            aria-expanded={isOpen}
+            aria-label={`Map legend and filters${filtered ? ', filters active' : ''}`}
             className={`
-                flex items-center justify-center w-12 h-12 transition-all duration-300 border
+                relative flex items-center justify-center w-12 h-12 transition-all duration-300 border
                 ${isOpen ? 'bg-[#E42737] border-[#E42737] text-black shadow-[0_0_20px_#E42737]' : 'bg-[#121212]/90 border-[#E42737]/60 text-[#E42737] hover:bg-[#E42737]/10'}
             `}
         >
             <span className="text-[10px] font-black tracking-widest uppercase">{isOpen ? 'CLOSE' : 'KEY'}</span>
+            {filtered && !isOpen && <span className="absolute top-1 right-1 w-1.5 h-1.5 bg-[#E42737] rounded-full"></span>}
         </button>
     </div>
   );
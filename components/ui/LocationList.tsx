@@ -1,32 +1,47 @@
 
-import React, { useState } from 'react';
-import { Search } from 'lucide-react';
+import React, { useState, useRef, useMemo } from 'react';
+import { Search, Upload, Download } from 'lucide-react';
 import { GlobeData, City } from '../../types/index.ts';
+import { EMPTY_FILTERS, LocationFilters, isLocationVisible } from '../../utils/filters.ts';
+import { LOCATION_QUERY, compileQuery } from '../../utils/query.ts';
 
 interface LocationListProps {
   data: GlobeData;
   onSelect: (city: City) => void;
   selectedCity: City | null;
   forceVisible?: boolean;
+  onImportGeoJson?: (file: File) => void;
+  onExportGeoJson?: () => void;
+  filters?: LocationFilters;
 }
 
-export const LocationList: React.FC<LocationListProps> = ({ data, onSelect, selectedCity, forceVisible = false }) => {
+export const LocationList: React.FC<LocationListProps> = ({ data, onSelect, selectedCity, forceVisible = false, onImportGeoJson, onExportGeoJson, filters = EMPTY_FILTERS }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const query = useMemo(() => compileQuery(searchQuery, LOCATION_QUERY), [searchQuery]);
 
   if (!data.cities || data.cities.length === 0) return null;
 
-  const filteredCities = data.cities.filter(city => 
-    city.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    (city.faction && city.faction.toLowerCase().includes(searchQuery.toLowerCase())) ||
-    city.category.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const filteredCities = data.cities.filter(city => isLocationVisible(city, filters) && query.match(city));
 
   return (
     <div className={`absolute top-24 right-6 md:right-10 w-[240px] pointer-events-none z-30 font-mono ${forceVisible ? 'block animate-fade-in' : 'hidden md:block'}`}>
        <div className="flex flex-col items-end">
            <div className="w-full pointer-events-auto flex flex-col">
                {/* Panel Title */}
-               <div className="mb-2 text-right">
+               <div className="mb-2 flex items-center justify-between">
+                  <div className="flex items-center gap-1">
+                      {onImportGeoJson && (
+                          <button onClick={() => fileInputRef.current?.click()} className="p-1 text-white/20 hover:text-[#E42737] transition-colors" title="IMPORT GEOJSON" aria-label="Import GeoJSON layer"><Upload size={10} /></button>
+                      )}
+                      {onExportGeoJson && (
+                          <button onClick={onExportGeoJson} className="p-1 text-white/20 hover:text-[#E42737] transition-colors" title="EXPORT GEOJSON" aria-label="Export GeoJSON layer"><Download size={10} /></button>
+                      )}
+                      <input
+                          ref={fileInputRef} type="file" accept=".geojson,.json,application/geo+json,application/json" className="hidden" aria-label="GeoJSON file"
+                          onChange={(e) => { const file = e.target.files?.[0]; if (file) onImportGeoJson?.(file); e.target.value = ''; }}
+                      />
+                  </div>
                   <span className="text-[9px] font-black tracking-[0.4em] text-[#E42737] uppercase">TARGET_LIST</span>
                </div>
 
@@ -35,11 +50,20 @@ export const LocationList: React.FC<LocationListProps> = ({ data, onSelect, sele
                     <input 
                         type="text" 
                         placeholder="SCAN_SECTOR" 
+                        aria-label="Filter targets, e.g. faction:ICE pop>10M"
+                        aria-invalid={!!query.error}
+                        aria-describedby={query.error ? 'location-query-error' : undefined}
+                        title="faction:ICE status:CRITICAL pop>10M type:Node.* -field:x a OR b"
                         value={searchQuery} 
                         onChange={(e) => setSearchQuery(e.target.value)}
-                        className="w-full bg-transparent border-b border-white/10 text-white text-[10px] py-1 outline-none focus:border-[#E42737] placeholder:text-white/20 uppercase tracking-[0.3em] transition-all font-bold" 
+                        className={`w-full bg-transparent border-b ${query.error ? 'border-[#E42737]' : 'border-white/10'} text-white text-[10px] py-1 outline-none focus:border-[#E42737] placeholder:text-white/20 uppercase tracking-[0.3em] transition-all font-bold`} 
                     />
                     <Search size={12} className="absolute right-0 top-1/2 transform -translate-y-1/2 text-white/20" />
+                    {query.error && (
+                        <span id="location-query-error" role="status" className="absolute left-0 top-full mt-1 text-[7px] text-[#E42737] tracking-[0.2em] uppercase">
+                            ERR@{query.error.position} // {query.error.message}
+                        </span>
+                    )}
                </div>
 
                {/* Transparent List */}
@@ -47,7 +71,7 @@ export const LocationList: React.FC<LocationListProps> = ({ data, onSelect, sele
                   {filteredCities.map((city) => {
                     const isSelected = selectedCity?.name === city.name;
                     return (
-                      <button key={city.name} onClick={() => onSelect(city)}
+                      <button key={city.name} onClick={() => onSelect(city)} aria-pressed={isSelected}
                         className={`w-full text-right py-2 transition-all duration-300 relative group flex flex-col items-end
                             ${isSelected ? 'opacity-100' : 'opacity-40 hover:opacity-100'}`}
                       >
@@ -0,0 +1,80 @@
+
+import React, { useEffect, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import { CelestialBodyConfig, City, Zone } from '../../types/index.ts';
+
+export interface SceneTarget {
+  name: string;
+  detail: string;
+}
+
+interface SceneDescriptionProps {
+  viewMode: 'ORBIT' | 'SYSTEM';
+  body: CelestialBodyConfig;
+  targets: SceneTarget[];
+  selection: City | Zone | null;
+  focused: string | null;
+  // Description mode shows the text alternative on screen instead of off-screen only
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Text alternative for the canvas scenes. The structured part is read on demand (canvases point at it via
+// aria-describedby); only view, selection and keyboard-focus changes go through the live region.
+export const SceneDescription: React.FC<SceneDescriptionProps> = ({ viewMode, body, targets, selection, focused, visible, onClose }) => {
+  const [announcement, setAnnouncement] = useState('');
+  const viewLabel = viewMode === 'ORBIT' ? 'Orbital view' : 'System map';
+
+  useEffect(() => { setAnnouncement(`${viewLabel}: ${body.name}.`); }, [viewLabel, body.name]);
+  useEffect(() => {
+    if (selection) setAnnouncement(`Selected ${selection.name}${selection.status ? `, ${selection.status}` : ''}.`);
+  }, [selection]);
+  useEffect(() => { if (focused) setAnnouncement(`Focused ${focused}.`); }, [focused]);
+
+  return (
+    <section
+      id="scene-description"
+      aria-label="Scene description"
+      className={visible
+        ? 'absolute top-24 left-1/2 -translate-x-1/2 w-[340px] max-w-[90%] max-h-[55vh] overflow-y-auto custom-scroll z-[60] font-mono pointer-events-auto bg-[#121212]/90 backdrop-blur-sm border border-white/10 p-4'
+        : 'sr-only'}
+    >
+      {visible && (
+        <div className="flex items-center justify-between pb-2 mb-3 border-b border-white/10">
+          <div className="flex items-center gap-2 text-[#E42737]">
+            <FileText size={12} />
+            <span className="text-[10px] font-black tracking-[0.2em]">SCENE // TEXT</span>
+          </div>
+          <button onClick={onClose} className="text-white/20 hover:text-white transition-colors p-1" aria-label="Close description mode"><X size={12} /></button>
+        </div>
+      )}
+
+      <h2 className="text-sm font-black text-white tracking-[0.2em] uppercase">{viewLabel}: {body.name}</h2>
+      <p className="text-[10px] text-white/50 mt-1">{body.type}. {body.description}</p>
+
+      <h3 className="text-[9px] font-black tracking-[0.3em] text-[#E42737] uppercase mt-4 mb-1">
+        {viewMode === 'ORBIT' ? 'Visible locations' : 'Bodies on screen'} ({targets.length})
+      </h3>
+      {targets.length === 0 ? (
+        <p className="text-[10px] text-white/40">None.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {targets.map(t => (
+            <li key={t.name} className="text-[10px] text-white/70">{t.name}{t.detail && <span className="text-white/30"> — {t.detail}</span>}</li>
+          ))}
+        </ul>
+      )}
+
+      <h3 className="text-[9px] font-black tracking-[0.3em] text-[#E42737] uppercase mt-4 mb-1">Selection</h3>
+      {selection ? (
+        <p className="text-[10px] text-white/70">
+          {selection.name}{selection.category ? `, ${selection.category}` : ''}{selection.faction ? `, faction ${selection.faction}` : ''}{selection.status ? `, status ${selection.status}` : ''}. {selection.description}
+        </p>
+      ) : (
+        <p className="text-[10px] text-white/40">Nothing selected.</p>
+      )}
+
+      <div aria-live="polite" aria-atomic="true" className="sr-only">{announcement}</div>
+    </section>
+  );
+};
@@ -0,0 +1,36 @@
+
+import React from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { SHORTCUTS } from '../../hooks/useKeyboardShortcuts.ts';
+
+interface ShortcutsOverlayProps {
+  onClose: () => void;
+}
+
+export const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ onClose }) => {
+  return (
+    <div className="absolute inset-0 z-[80] flex items-center justify-center bg-black/40 font-mono pointer-events-auto animate-fade-in" onClick={onClose}>
+      <div role="dialog" aria-modal="true" aria-label="Keyboard bindings" className="w-[360px] max-w-[90%] bg-[#121212]/90 backdrop-blur-sm border border-[#E42737]/50 shadow-[0_0_20px_rgba(0,0,0,0.5)] p-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between pb-2 mb-3 border-b border-[#E42737]/20">
+          <div className="flex items-center gap-2 text-[#E42737]">
+            <Keyboard size={12} />
+            <span className="text-[10px] font-black tracking-[0.2em]">KEYBOARD // BINDINGS</span>
+          </div>
+          <button onClick={onClose} className="text-white/20 hover:text-white transition-colors p-1" aria-label="Close keyboard bindings"><X size={12} /></button>
+        </div>
+        <div className="space-y-2">
+          {SHORTCUTS.map(shortcut => (
+            <div key={shortcut.label} className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-1 flex-wrap">
+                {shortcut.keys.map(key => (
+                  <span key={key} className="text-[9px] text-white font-black border border-white/20 px-1.5 py-0.5 min-w-[20px] text-center">{key}</span>
+                ))}
+              </div>
+              <span className="text-[8px] text-white/40 tracking-[0.2em] uppercase text-right">{shortcut.label}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
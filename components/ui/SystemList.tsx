@@ -1,7 +1,9 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Search } from 'lucide-react';
 import { CelestialBodyConfig } from '../../types/index.ts';
+import { createBodyRegistry } from '../../data/bodyRegistry.ts';
+import { BODY_QUERY, compileQuery } from '../../utils/query.ts';
 
 interface SystemListProps {
   bodies: CelestialBodyConfig[];
@@ -12,14 +14,11 @@ interface SystemListProps {
 export const SystemList: React.FC<SystemListProps> = ({ bodies, onSelect, forceVisible = false }) => {
   const [searchQuery, setSearchQuery] = useState('');
   
-  // Wykluczamy planety pasywne z listy celów
-  const excludedIds = ['mercury', 'venus', 'jupiter', 'saturn', 'uranus', 'neptune'];
+  // Tylko ciała nawigowalne trafiają na listę celów
+  const targets = useMemo(() => createBodyRegistry(bodies).navigable, [bodies]);
   
-  const filteredBodies = bodies.filter(body => 
-    !excludedIds.includes(body.id) &&
-    (body.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-     body.type.toLowerCase().includes(searchQuery.toLowerCase()))
-  );
+  const query = useMemo(() => compileQuery(searchQuery, BODY_QUERY), [searchQuery]);
+  const filteredBodies = targets.filter(query.match);
 
   return (
     <div className={`absolute top-24 right-6 md:right-10 w-[240px] pointer-events-none z-30 font-mono ${forceVisible ? 'block animate-fade-in' : 'hidden md:block'}`}>
@@ -35,11 +34,20 @@ export const SystemList: React.FC<SystemListProps> = ({ bodies, onSelect, forceV
                     <input 
                         type="text" 
                         placeholder="SCAN_ARRAY" 
+                        aria-label="Filter bodies, e.g. atmosphere:CO2 gravity<5"
+                        aria-invalid={!!query.error}
+                        aria-describedby={query.error ? 'body-query-error' : undefined}
+                        title="atmosphere:CO2 gravity<5 pop>1M type:Gas* -field:x a OR b"
                         value={searchQuery} 
                         onChange={(e) => setSearchQuery(e.target.value)}
-                        className="w-full bg-transparent border-b border-white/10 text-white text-[10px] py-1 outline-none focus:border-[#E42737] placeholder:text-white/20 uppercase tracking-[0.3em] transition-all font-bold" 
+                        className={`w-full bg-transparent border-b ${query.error ? 'border-[#E42737]' : 'border-white/10'} text-white text-[10px] py-1 outline-none focus:border-[#E42737] placeholder:text-white/20 uppercase tracking-[0.3em] transition-all font-bold`} 
                     />
                     <Search size={12} className="absolute right-0 top-1/2 transform -translate-y-1/2 text-white/20" />
+                    {query.error && (
+                        <span id="body-query-error" role="status" className="absolute left-0 top-full mt-1 text-[7px] text-[#E42737] tracking-[0.2em] uppercase">
+                            ERR@{query.error.position} // {query.error.message}
+                        </span>
+                    )}
                </div>
 
                {/* Transparent List */}
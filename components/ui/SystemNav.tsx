@@ -1,14 +1,25 @@
 
-import React from 'react';
-import { Sun, Orbit, Info, Crosshair } from 'lucide-react';
+import React, { useMemo } from 'react';
+import { Sun, Orbit, Info, Crosshair, Satellite, FileText } from 'lucide-react';
 import { CelestialBodyConfig } from '../../types/index.ts';
+import { createBodyRegistry } from '../../data/bodyRegistry.ts';
+import { SimulationClock } from '../../utils/simulationClock.ts';
+import { SearchEntry } from '../../utils/search.ts';
+import { TimeControls } from './TimeControls.tsx';
+import { GlobalSearch } from './GlobalSearch.tsx';
 
 interface SystemNavProps {
   bodies: CelestialBodyConfig[];
   currentBodyId: string;
   viewMode: 'ORBIT' | 'SYSTEM';
   zoomLevel: number;
+  clock: SimulationClock;
+  ephemerisMode: boolean;
+  onToggleEphemeris: () => void;
+  describeMode: boolean;
+  onToggleDescribeMode: () => void;
   onSelectBody: (id: string) => void;
+  onSearchSelect: (entry: SearchEntry) => void;
   onViewModeChange: (mode: 'ORBIT' | 'SYSTEM') => void;
   onZoomChange: (value: number) => void;
   onToggleMobileInfo: () => void;
@@ -21,25 +32,35 @@ export const SystemNav: React.FC<SystemNavProps> = ({
   currentBodyId, 
   viewMode,
   zoomLevel,
+  clock,
+  ephemerisMode,
+  onToggleEphemeris,
+  describeMode,
+  onToggleDescribeMode,
   onSelectBody, 
+  onSearchSelect,
   onViewModeChange,
   onZoomChange,
   onToggleMobileInfo,
   onToggleMobileList,
   isMobile
 }) => {
-  const targetLinkIds = ['earth', 'moon', 'mars', 'belt', 'io', 'europa', 'ganymede', 'callisto'];
-  const visibleBodies = bodies.filter(b => targetLinkIds.includes(b.id));
+  const visibleBodies = useMemo(() => createBodyRegistry(bodies).navigable, [bodies]);
 
   return (
     <div className="fixed bottom-0 left-0 w-full z-[100] pointer-events-none flex flex-col items-center pb-6 safe-bottom">
       
+      {/* Simulation Clock */}
+      <TimeControls clock={clock} isMobile={isMobile} />
+
       {/* Zoom Slider Section */}
       <div className="mb-4 pointer-events-auto flex items-center gap-3 px-4 w-full max-w-lg justify-center">
          <div className="relative flex items-center flex-1 max-w-[200px]">
             <input 
                 type="range" min="0" max="100" value={zoomLevel} 
                 onChange={(e) => onZoomChange(parseInt(e.target.value))}
+                aria-label="Zoom"
+                aria-valuetext={`${zoomLevel}%`}
                 className="w-full h-[1px] bg-white/10 appearance-none cursor-pointer focus:outline-none relative z-10
                   [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-1 [&::-webkit-slider-thumb]:h-4 
                   [&::-webkit-slider-thumb]:bg-[#E42737] [&::-webkit-slider-thumb]:shadow-[0_0_8px_#E42737]
@@ -51,8 +72,8 @@ export const SystemNav: React.FC<SystemNavProps> = ({
          
          {isMobile && (
             <div className="flex items-center gap-1 border-l border-white/10 pl-2">
-                <button onClick={(e) => { e.stopPropagation(); onToggleMobileInfo(); }} className="p-2 text-[#E42737]/60 active:text-[#E42737] transition-colors"><Info size={16} /></button>
-                <button onClick={(e) => { e.stopPropagation(); onToggleMobileList(); }} className="p-2 text-[#E42737]/60 active:text-[#E42737] transition-colors"><Crosshair size={16} /></button>
+                <button onClick={(e) => { e.stopPropagation(); onToggleMobileInfo(); }} aria-label="Toggle body information" className="p-2 text-[#E42737]/60 active:text-[#E42737] transition-colors"><Info size={16} /></button>
+                <button onClick={(e) => { e.stopPropagation(); onToggleMobileList(); }} aria-label="Toggle target list" className="p-2 text-[#E42737]/60 active:text-[#E42737] transition-colors"><Crosshair size={16} /></button>
             </div>
          )}
       </div>
@@ -64,25 +85,47 @@ export const SystemNav: React.FC<SystemNavProps> = ({
                 onClick={() => onViewModeChange('ORBIT')}
                 className={`transition-colors duration-300 ${viewMode === 'ORBIT' ? 'text-[#E42737]' : 'text-white/20 hover:text-white/50'}`}
                 title="ORBIT"
+                aria-label="Orbit view"
+                aria-pressed={viewMode === 'ORBIT'}
             ><Orbit size={18} /></button>
             <button 
                 onClick={() => onViewModeChange('SYSTEM')}
                 className={`transition-colors duration-300 ${viewMode === 'SYSTEM' ? 'text-[#E42737]' : 'text-white/20 hover:text-white/50'}`}
                 title="SYSTEM"
+                aria-label="System map"
+                aria-pressed={viewMode === 'SYSTEM'}
             ><Sun size={18} /></button>
+            {viewMode === 'SYSTEM' && (
+              <button 
+                  onClick={onToggleEphemeris}
+                  className={`transition-colors duration-300 ${ephemerisMode ? 'text-[#E42737]' : 'text-white/20 hover:text-white/50'}`}
+                  title="EPHEMERIS"
+                  aria-label="Real ephemeris positions"
+                  aria-pressed={ephemerisMode}
+              ><Satellite size={18} /></button>
+            )}
+            <button 
+                onClick={onToggleDescribeMode}
+                className={`transition-colors duration-300 ${describeMode ? 'text-[#E42737]' : 'text-white/20 hover:text-white/50'}`}
+                title="TEXT"
+                aria-label="Text description mode"
+                aria-pressed={describeMode}
+            ><FileText size={18} /></button>
+            <GlobalSearch bodies={bodies} onSelect={onSearchSelect} />
          </div>
 
          <div className="w-[1px] h-3 bg-white/10 mx-2"></div>
 
          <div className="flex items-center px-4 overflow-hidden max-w-[calc(100vw-120px)] md:max-w-4xl">
             <div className="flex items-center gap-2 overflow-x-auto no-scrollbar py-1">
-              {visibleBodies.map((body) => {
+              {visibleBodies.map((body, idx) => {
                 const isActive = body.id === currentBodyId;
                 const name = body.name === 'earth' ? 'TERRA' : body.name === 'moon' ? 'LUNA' : body.name;
                 return (
                   <button
                     key={body.id}
                     onClick={() => onSelectBody(body.id)}
+                    aria-pressed={isActive}
                     className={`
                       text-[10px] font-mono tracking-[0.2em] uppercase font-black whitespace-nowrap px-4 py-1.5 border transition-all
                       ${isActive 
@@ -90,6 +133,7 @@ export const SystemNav: React.FC<SystemNavProps> = ({
                         : 'text-white/20 border-transparent hover:text-white/60 hover:border-white/10'}
                     `}
                   >
+                    {!isMobile && idx < 9 && <span className="text-white/20 mr-2">{idx + 1}</span>}
                     {name}
                   </button>
                 );
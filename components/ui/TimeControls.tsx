@@ -0,0 +1,78 @@
+
+import React from 'react';
+import { Play, Pause, Rewind } from 'lucide-react';
+import { useClockSnapshot } from '../../hooks/useSimulationClock.ts';
+import { DAY_MS, SimulationClock, TIMELINE_END_MS, TIMELINE_START_MS, WARP_PRESETS, formatSimDate } from '../../utils/simulationClock.ts';
+
+interface TimeControlsProps {
+  clock: SimulationClock;
+  isMobile: boolean;
+}
+
+export const TimeControls: React.FC<TimeControlsProps> = ({ clock, isMobile }) => {
+  const { playing, warp, now } = useClockSnapshot(clock);
+  const reversed = warp < 0;
+  const speed = Math.abs(warp);
+
+  const handleDateInput = (value: string) => {
+    const [y, m, d] = value.split('-').map(Number);
+    if (y && m && d) clock.setDate(Date.UTC(y, m - 1, d));
+  };
+
+  return (
+    <div className="mb-3 pointer-events-auto flex flex-wrap items-center gap-3 px-4 w-full max-w-2xl justify-center font-mono">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => clock.toggle()}
+          className={`p-1 transition-colors ${playing ? 'text-[#E42737]' : 'text-white/40 hover:text-white'}`}
+          title={playing ? 'PAUSE' : 'PLAY'}
+          aria-label={playing ? 'Pause simulation clock' : 'Resume simulation clock'}
+        >{playing ? <Pause size={14} /> : <Play size={14} />}</button>
+        <button
+          onClick={() => clock.setWarp(-warp)}
+          className={`p-1 transition-colors ${reversed ? 'text-[#E42737]' : 'text-white/20 hover:text-white/50'}`}
+          title="REVERSE"
+          aria-label="Run clock backwards"
+          aria-pressed={reversed}
+        ><Rewind size={14} /></button>
+      </div>
+
+      {!isMobile && (
+        <div className="flex items-center gap-1">
+          {WARP_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => clock.setWarp(reversed ? -preset.value : preset.value)}
+              aria-label={`Time warp ${preset.label}`}
+              aria-pressed={speed === preset.value}
+              className={`text-[8px] font-black tracking-[0.2em] px-2 py-0.5 border transition-all ${speed === preset.value ? 'text-white border-[#E42737] bg-[#E42737]/5' : 'text-white/20 border-transparent hover:text-white/60 hover:border-white/10'}`}
+            >{preset.label}</button>
+          ))}
+        </div>
+      )}
+
+      <div className="relative flex items-center flex-1 min-w-[120px] max-w-[220px]">
+        <input
+          type="range" min={TIMELINE_START_MS} max={TIMELINE_END_MS} step={DAY_MS} value={Math.max(TIMELINE_START_MS, Math.min(TIMELINE_END_MS, now))}
+          onChange={(e) => clock.setDate(Number(e.target.value))}
+          aria-label="Simulation timeline"
+          aria-valuetext={formatSimDate(now)}
+          className="w-full h-[1px] bg-white/10 appearance-none cursor-pointer focus:outline-none relative z-10
+            [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-1 [&::-webkit-slider-thumb]:h-4
+            [&::-webkit-slider-thumb]:bg-white/60
+            [&::-moz-range-thumb]:w-1 [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:bg-white/60 [&::-moz-range-thumb]:border-none
+          "
+        />
+      </div>
+
+      <input
+        type="date"
+        value={new Date(now).toISOString().slice(0, 10)}
+        onChange={(e) => handleDateInput(e.target.value)}
+        aria-label="Simulation date"
+        className="bg-transparent border border-white/10 text-[9px] text-white/60 tracking-[0.1em] px-1 py-0.5 focus:outline-none focus:border-[#E42737] [color-scheme:dark]"
+      />
+      <span className="text-[8px] text-white/30 font-bold tracking-[0.2em] uppercase">{formatSimDate(now).slice(11)}</span>
+    </div>
+  );
+};
@@ -1,34 +1,126 @@
 
-import React, { useEffect, useRef, forwardRef, useImperativeHandle, useState, useCallback } from 'react';
+import React, { useEffect, useRef, forwardRef, useImperativeHandle, useState, useCallback, useMemo } from 'react';
 import * as d3 from 'd3';
-import * as topojson from 'topojson-client';
-import { CelestialBodyConfig, City } from '../../types/index.ts';
-import { WORLD_ATLAS_URL } from '../../data/constants.ts';
-import { Crosshair } from 'lucide-react';
+import { CelestialBodyConfig, City, GlobeCamera, Route, Zone, ZoneGeometry } from '../../types/index.ts';
+import { CATEGORY_COLORS } from '../../data/constants.ts';
+import { AtlasLand } from '../../data/atlas.ts';
+import { useWorldAtlas } from '../../hooks/useWorldAtlas.ts';
+import { useClockSnapshot } from '../../hooks/useSimulationClock.ts';
+import { usePublishCursorProjection } from '../../hooks/useCursorProjection.ts';
+import { useFrameScheduler } from '../../hooks/useFrameScheduler.ts';
+import { SimulationClock, formatSimDate, subsolarPoint } from '../../utils/simulationClock.ts';
+import { PinchState, TapTracker, isTap, readPinch, startTap, updateTap } from '../../utils/gestures.ts';
+import { ScreenCluster, clusterScreenPoints } from '../../utils/clustering.ts';
+import { createSphereIndex, orthographicPickRadius } from '../../utils/sphereIndex.ts';
+import { LABEL_PRIORITY, LabelBox, LabelRequest, createLabelLayout, leaderLine } from '../../utils/labelLayout.ts';
+import { GeoPoint, MeasurePoint, TRAVEL_SPEEDS, arcDegrees, formatDistance, formatDuration, greatCircleKm } from '../../utils/measure.ts';
+import { Crosshair, WifiOff, X } from 'lucide-react';
 
 export interface GlobeHandle {
   setZoom: (value: number) => void;
   flyTo: (city: City) => void;
+  getCamera: () => GlobeCamera;
+  setCamera: (camera: Partial<GlobeCamera>, animate?: boolean) => void;
+  rotateBy: (dLambda: number, dPhi: number) => void;
+  // Back to the framing a body opens with (first city, default scale)
+  resetCamera: () => void;
+  captureImage: () => Promise<Blob | null>;
+  // Keyboard focus: moves the hover highlight through cities on the visible hemisphere
+  cycleFocus: (step: number) => City | null;
+  selectFocused: () => boolean;
 }
 
 interface GlobeProps {
   config: CelestialBodyConfig;
+  clock: SimulationClock;
   onSelect: (city: City) => void;
   selectedCity: City | null;
   onHoverChange?: (isHovering: boolean) => void;
   interactionsEnabled?: boolean;
+  onSelectZone?: (zone: Zone) => void;
+  selectedZone?: Zone | null;
+  // Fired when the user settles the camera (drag end, fly-to arrival)
+  onCameraChange?: () => void;
+  // Fired when wheel or pinch changes the zoom, so the nav slider follows
+  onZoomAutoChange?: (zoomPercent: number) => void;
+  // Names of cities on the visible hemisphere, reported when the set changes (scene description)
+  onVisibleTargetsChange?: (names: string[]) => void;
+  autoRotate?: boolean;
 }
 
 const MONO_STACK = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace';
 
+// Route colour by Route.type, line pattern and packet traffic by Route.status
+const ROUTE_COLORS: Record<string, string> = {
+  DATA: '0, 255, 255',
+  TRANSIT: '244, 114, 182',
+  SUPPLY: '251, 191, 36',
+};
+const ROUTE_DEFAULT_COLOR = '228, 39, 55';
+const ROUTE_STATUS_STYLES: Record<string, { alpha: number; dash: number[]; packets: boolean }> = {
+  ACTIVE: { alpha: 0.5, dash: [], packets: true },
+  DEGRADED: { alpha: 0.35, dash: [6, 4], packets: false },
+  OFFLINE: { alpha: 0.2, dash: [2, 4], packets: false },
+};
+const ROUTE_DEFAULT_STATUS = { alpha: 0.6, dash: [2, 4], packets: false };
+// Packet speed in radians of arc per millisecond
+const PACKET_SPEED = 0.0004;
+// Markers closer than this on screen merge into a count badge
+const CLUSTER_RADIUS = 24;
+// Pointer reach of a city marker
+const HIT_RADIUS = 15;
+
+interface ResolvedRoute {
+  route: Route;
+  from: [number, number];
+  to: [number, number];
+  distance: number;
+  interpolate: (t: number) => [number, number];
+}
+
+interface ResolvedZone {
+  zone: Zone;
+  geometry: ZoneGeometry;
+  centroid: [number, number];
+}
+
+// A front-facing city for the current frame, at its screen position
+interface VisibleCity {
+  city: City;
+  x: number;
+  y: number;
+  // Cluster merge factor: 0 merged into a badge, 1 free
+  free: number;
+}
+
+// d3-geo treats counter-clockwise exterior rings (RFC 7946 / QGIS output) as "everything but the polygon".
+// Checked per polygon: one MultiPolygon can mix both windings.
+const normalizePolygon = (rings: number[][][]) =>
+  d3.geoArea({ type: 'Polygon', coordinates: rings }) <= 2 * Math.PI ? rings : rings.map(ring => [...ring].reverse());
+
+const normalizeWinding = (geometry: ZoneGeometry): ZoneGeometry =>
+  geometry.type === 'Polygon'
+    ? { type: 'Polygon', coordinates: normalizePolygon(geometry.coordinates) }
+    : { type: 'MultiPolygon', coordinates: geometry.coordinates.map(normalizePolygon) };
+
+const hexToRgb = (hex: string) => {
+  const v = parseInt(hex.slice(1), 16);
+  return `${(v >> 16) & 255}, ${(v >> 8) & 255}, ${v & 255}`;
+};
+
 export const Globe = forwardRef<GlobeHandle, GlobeProps>(({ 
-  config, onSelect, selectedCity, onHoverChange, interactionsEnabled = true
+  config, clock, onSelect, selectedCity, onHoverChange, interactionsEnabled = true, onSelectZone, selectedZone = null, onCameraChange,
+  onZoomAutoChange, onVisibleTargetsChange, autoRotate = true
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dims, setDims] = useState({ width: 0, height: 0 });
   const [hoveredItem, setHoveredItem] = useState<City | null>(null);
+  const [hoveredZone, setHoveredZone] = useState<Zone | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  // Shift-click endpoints of the great-circle measurement (0-2)
+  const [measure, setMeasure] = useState<MeasurePoint[]>([]);
+  const [speedIndex, setSpeedIndex] = useState(1);
   
   const rotationRef = useRef<[number, number, number]>([0, -30, 0]);
   const scaleRef = useRef<number>(350);
@@ -37,16 +129,49 @@ export const Globe = forwardRef<GlobeHandle, GlobeProps>(({
   const momentumRef = useRef<{ x: number; y: number }>({ x: 0.05, y: 0 }); 
   const isAnimatingRef = useRef(false);
   const lastMoveRef = useRef<{ x: number, y: number, time: number } | null>(null);
-  const animationRef = useRef<number>(0);
+  // Two-finger gesture: scale and finger spread at its start, plus the previous sample for panning
+  const pinchRef = useRef<{ startScale: number; startDistance: number; last: PinchState } | null>(null);
+  const tapRef = useRef<TapTracker | null>(null);
 
-  const worldDataRef = useRef<any>(null);
-  const landDataRef = useRef<any>(null);
+  const atlas = useWorldAtlas();
+  const clockSnapshot = useClockSnapshot(clock, 1000);
+  const landDataRef = useRef<AtlasLand | null>(null);
   const starfieldRef = useRef<any[]>([]);
   const asteroidFieldRef = useRef<any[]>([]);
-  const labelPosRef = useRef<Map<string, { x: number, y: number }>>(new Map());
+  const [labelLayout] = useState(createLabelLayout);
+  // Per-city merge state: f eases 0 (inside a cluster) to 1 (own marker), dx/dy is the last offset to its badge
+  const mergeRef = useRef<Map<string, { f: number; dx: number; dy: number }>>(new Map());
+  const hoverClusterRef = useRef(false);
+  const clusterHitRef = useRef<{ x: number; y: number; r: number; cities: City[] }[]>([]);
+  const visibleKeyRef = useRef('');
+  // Idle spin speed (deg/frame) that momentum settles back to
+  const idleSpin = autoRotate ? 0.05 : 0;
+  const idleSpinRef = useRef(idleSpin);
+  idleSpinRef.current = idleSpin;
 
   const MIN_SCALE = 100;
   const MAX_SCALE = 2000;
+  const HOME_SCALE = 350;
+  const isBelt = config.type === 'Asteroid Belt';
+
+  // Culling and picking go through this instead of scanning every city
+  const cityIndex = useMemo(() => createSphereIndex(config.data.cities, c => [c.lng, c.lat]), [config]);
+  const citiesByName = useMemo(() => new Map(config.data.cities.map(c => [c.name, c])), [config]);
+
+  const resolvedRoutes = useMemo<ResolvedRoute[]>(() => {
+    const byName = new Map(config.data.cities.map(c => [c.name, c]));
+    return (config.data.routes || []).flatMap(route => {
+      const a = byName.get(route.from); const b = byName.get(route.to);
+      if (!a || !b) return [];
+      const from: [number, number] = [a.lng, a.lat]; const to: [number, number] = [b.lng, b.lat];
+      return [{ route, from, to, distance: d3.geoDistance(from, to), interpolate: d3.geoInterpolate(from, to) }];
+    });
+  }, [config]);
+
+  const resolvedZones = useMemo<ResolvedZone[]>(() => (config.data.zones || []).map(zone => {
+    const geometry = normalizeWinding(zone.geometry);
+    return { zone, geometry, centroid: d3.geoCentroid(geometry) };
+  }), [config]);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -59,64 +184,136 @@ export const Globe = forwardRef<GlobeHandle, GlobeProps>(({
     return () => observer.disconnect();
   }, []);
 
+  const animateRotation = (targetRot: [number, number, number]) => {
+    isAnimatingRef.current = true;
+    momentumRef.current = { x: 0, y: 0 };
+    wake();
+    const start = [...rotationRef.current] as [number, number, number];
+    // Take the short way round in longitude
+    start[0] = targetRot[0] + ((start[0] - targetRot[0] + 180) % 360 + 360) % 360 - 180;
+    const interpolate = d3.interpolateArray(start, targetRot);
+    const duration = 1500; let startTime: number | null = null;
+    const step = (t: number) => {
+        if (!startTime) startTime = t;
+        const progress = Math.min((t - startTime) / duration, 1);
+        rotationRef.current = interpolate(d3.easeCubicOut(progress)) as [number, number, number];
+        if (progress < 1) requestAnimationFrame(step);
+        else { isAnimatingRef.current = false; momentumRef.current = { x: idleSpinRef.current, y: 0 }; onCameraChange?.(); }
+    };
+    requestAnimationFrame(step);
+  };
+
   useImperativeHandle(ref, () => ({
-    setZoom: (v) => { targetScaleRef.current = MIN_SCALE + (v / 100) * (MAX_SCALE - MIN_SCALE); },
+    setZoom: (v) => { targetScaleRef.current = MIN_SCALE + (v / 100) * (MAX_SCALE - MIN_SCALE); wake(); },
     flyTo: (city) => {
-        if (config.id === 'belt') return;
-        isAnimatingRef.current = true;
+        if (isBelt) return;
+        animateRotation([-city.lng, -city.lat, 0]);
+    },
+    getCamera: () => ({ rotation: [rotationRef.current[0], rotationRef.current[1]], scale: targetScaleRef.current }),
+    setCamera: ({ rotation, scale }, animate = false) => {
+        if (scale !== undefined) targetScaleRef.current = Math.max(MIN_SCALE, Math.min(MAX_SCALE, scale));
+        if (!rotation) return;
+        if (animate) animateRotation([rotation[0], rotation[1], 0]);
+        else { rotationRef.current = [rotation[0], rotation[1], 0]; wake(); }
+    },
+    resetCamera: () => {
+        targetScaleRef.current = HOME_SCALE;
+        reportZoom();
+        animateRotation(homeRotation());
+    },
+    captureImage: () => new Promise(resolve => {
+        if (canvasRef.current) canvasRef.current.toBlob(resolve, 'image/png');
+        else resolve(null);
+    }),
+    rotateBy: (dLambda, dPhi) => {
+        const [lambda, phi, gamma] = rotationRef.current;
+        rotationRef.current = [lambda + dLambda, Math.max(-90, Math.min(90, phi + dPhi)), gamma];
         momentumRef.current = { x: 0, y: 0 };
-        const start = [...rotationRef.current] as [number, number, number];
-        const targetRot: [number, number, number] = [-city.lng, -city.lat, 0];
-        const interpolate = d3.interpolateArray(start, targetRot);
-        const duration = 1500; let startTime: number | null = null;
-        const step = (t: number) => {
-            if (!startTime) startTime = t;
-            const progress = Math.min((t - startTime) / duration, 1);
-            rotationRef.current = interpolate(d3.easeCubicOut(progress)) as [number, number, number];
-            if (progress < 1) requestAnimationFrame(step);
-            else { isAnimatingRef.current = false; momentumRef.current = { x: 0.05, y: 0 }; }
-        };
-        requestAnimationFrame(step);
+        wake();
+        onCameraChange?.();
+    },
+    cycleFocus: (step) => {
+        const visibleCities = isBelt ? config.data.cities : cityIndex.visible([-rotationRef.current[0], -rotationRef.current[1]]);
+        if (visibleCities.length === 0) { setHoveredItem(null); return null; }
+        const current = visibleCities.findIndex(c => c.name === hoveredItem?.name);
+        const next = current === -1 ? (step > 0 ? 0 : visibleCities.length - 1) : (current + step + visibleCities.length) % visibleCities.length;
+        setHoveredItem(visibleCities[next]);
+        setHoveredZone(null);
+        return visibleCities[next];
+    },
+    selectFocused: () => {
+        if (!hoveredItem) return false;
+        onSelect(hoveredItem);
+        return true;
     }
   }));
 
+  // Labels first (drawn on top), then the nearest free marker. On the sphere only the cap around the surface
+  // point under the pointer is searched; the belt has no surface and few enough sites to scan.
   const findCityAt = useCallback((offsetX: number, offsetY: number) => {
     if (dims.width === 0) return null;
+    const labelHit = labelLayout.hitTest(offsetX, offsetY);
+    if (labelHit && citiesByName.has(labelHit)) return citiesByName.get(labelHit)!;
+
+    const cx = dims.width / 2; const cy = dims.height / 2;
     const proj = d3.geoOrthographic()
       .scale(scaleRef.current)
-      .translate([dims.width / 2, dims.height / 2])
+      .translate([cx, cy])
       .rotate(rotationRef.current);
-      
-    return config.data.cities.find(c => {
+
+    let candidates = config.data.cities;
+    if (!isBelt) {
+        const offset = Math.hypot(offsetX - cx, offsetY - cy) / scaleRef.current;
+        const rho = HIT_RADIUS / scaleRef.current;
+        if (offset - rho >= 1) return null;
+        // Off the disc, search from the nearest point of the limb
+        const k = Math.min(1, 0.9999 / offset);
+        const geo = proj.invert?.([cx + (offsetX - cx) * k, cy + (offsetY - cy) * k]);
+        if (!geo || Number.isNaN(geo[0])) return null;
+        const viewCenter: [number, number] = [-rotationRef.current[0], -rotationRef.current[1]];
+        candidates = cityIndex.within(geo as [number, number], orthographicPickRadius(offset, rho))
+            .filter(c => d3.geoDistance([c.lng, c.lat], viewCenter) < Math.PI / 2);
+    }
+
+    let found: City | null = null; let nearest = HIT_RADIUS;
+    candidates.forEach(c => {
+        // Folded into a cluster badge
+        if ((mergeRef.current.get(c.name)?.f ?? 1) < 0.5) return;
         const coords = proj([c.lng, c.lat]);
-        if (!coords) return false;
-        let x = coords[0], y = coords[1];
-        if (config.id === 'belt') {
-            const center = [dims.width / 2, dims.height / 2];
-            x = center[0] + (coords[0] - center[0]) * 2.2;
-            y = center[1] + (coords[1] - center[1]) * 2.2;
-        }
-        const vis = config.id === 'belt' || (d3.geoRotation(rotationRef.current)([c.lng, c.lat])[0] > -90 && d3.geoRotation(rotationRef.current)([c.lng, c.lat])[0] < 90);
-        
-        // Sprawdź trafienie w punkt (z buforem)
-        if (vis && Math.hypot(x - offsetX, y - offsetY) < 15) return true;
-        
-        // Sprawdź trafienie w etykietę (jeśli miasto jest wybrane lub aktywne)
-        if (vis && labelPosRef.current.has(c.name)) {
-            const pos = labelPosRef.current.get(c.name)!;
-            const canvas = canvasRef.current;
-            if (canvas) {
-                const ctx = canvas.getContext('2d');
-                if (ctx) {
-                    ctx.font = `bold 12px ${MONO_STACK}`;
-                    const bw = ctx.measureText(c.name).width + 24; const bh = 28;
-                    if (offsetX >= pos.x && offsetX <= pos.x + bw && offsetY >= pos.y && offsetY <= pos.y + bh) return true;
-                }
-            }
-        }
-        return false;
+        if (!coords) return;
+        const x = isBelt ? cx + (coords[0] - cx) * 2.2 : coords[0];
+        const y = isBelt ? cy + (coords[1] - cy) * 2.2 : coords[1];
+        const d = Math.hypot(x - offsetX, y - offsetY);
+        if (d < nearest) { found = c; nearest = d; }
     });
-  }, [dims, config, rotationRef, scaleRef]);
+    return found;
+  }, [dims, config, isBelt, labelLayout, cityIndex, citiesByName]);
+
+  // CursorHUD samples this on mouse moves; the belt has no surface to report
+  const readCursor = useCallback((clientX: number, clientY: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || dims.width === 0 || isBelt) return null;
+    const proj = d3.geoOrthographic().scale(scaleRef.current).translate([dims.width / 2, dims.height / 2]).rotate(rotationRef.current);
+    const geo = proj.invert?.([clientX - rect.left, clientY - rect.top]);
+    if (!geo || Number.isNaN(geo[0]) || d3.geoDistance(geo, [-rotationRef.current[0], -rotationRef.current[1]]) > Math.PI / 2) return null;
+    return { kind: 'geo' as const, lat: geo[1], lng: geo[0] };
+  }, [dims, isBelt]);
+  usePublishCursorProjection(readCursor);
+
+  const findZoneAt = useCallback((offsetX: number, offsetY: number) => {
+    if (dims.width === 0 || isBelt || resolvedZones.length === 0) return null;
+    const proj = d3.geoOrthographic()
+      .scale(scaleRef.current)
+      .translate([dims.width / 2, dims.height / 2])
+      .rotate(rotationRef.current);
+    const geo = proj.invert?.([offsetX, offsetY]);
+    if (!geo || Number.isNaN(geo[0]) || d3.geoDistance(geo, [-rotationRef.current[0], -rotationRef.current[1]]) > Math.PI / 2) return null;
+    // Last drawn zone is on top
+    for (let i = resolvedZones.length - 1; i >= 0; i--) {
+        if (d3.geoContains(resolvedZones[i].geometry, geo)) return resolvedZones[i].zone;
+    }
+    return null;
+  }, [dims, config, isBelt, resolvedZones]);
 
   const render = useCallback((time: number) => {
     const canvas = canvasRef.current; if (!canvas || dims.width === 0) return;
@@ -137,7 +334,7 @@ export const Globe = forwardRef<GlobeHandle, GlobeProps>(({
       .scale(scaleRef.current)
       .translate([width / 2, height / 2])
       .rotate(rotationRef.current)
-      .clipAngle(config.id === 'belt' ? null : 90);
+      .clipAngle(isBelt ? null : 90);
       
     const path = d3.geoPath(proj, ctx);
     const center = [width / 2, height / 2];
@@ -150,7 +347,7 @@ export const Globe = forwardRef<GlobeHandle, GlobeProps>(({
     });
     ctx.globalAlpha = 1;
 
-    if (config.id === 'belt') {
+    if (isBelt) {
         asteroidFieldRef.current.forEach(r => {
             const c = proj([r.lng, r.lat]);
             if (c) {
@@ -174,97 +371,270 @@ export const Globe = forwardRef<GlobeHandle, GlobeProps>(({
         if (config.id === 'earth' && landDataRef.current) {
             ctx.beginPath(); path(landDataRef.current); ctx.fillStyle = 'rgba(228, 39, 55, 0.15)'; ctx.fill();
         }
+
+        // Night side at the simulated date
+        if (config.id === 'earth') {
+            const [sunLng, sunLat] = subsolarPoint(clock.now());
+            const night = d3.geoCircle().center([sunLng + 180, -sunLat]).radius(90)();
+            ctx.beginPath(); path(night); ctx.fillStyle = 'rgba(0, 0, 0, 0.35)'; ctx.fill();
+            ctx.strokeStyle = 'rgba(251, 191, 36, 0.15)'; ctx.lineWidth = 0.5; ctx.stroke();
+        }
     }
 
-    const pulsePhase = (Math.sin(time / 400) + 1) / 2;
-    const visible: any[] = [];
+    // --- ZONES (FACTION TERRITORY) ---
+    if (!isBelt && resolvedZones.length > 0) {
+        const viewCenter: [number, number] = [-rotationRef.current[0], -rotationRef.current[1]];
+        resolvedZones.forEach(({ zone, geometry, centroid }) => {
+            const rgb = hexToRgb(CATEGORY_COLORS[zone.category] || '#94a3b8');
+            const isS = selectedZone?.name === zone.name;
+            const isH = hoveredZone?.name === zone.name;
+            ctx.beginPath(); path(geometry);
+            ctx.fillStyle = `rgba(${rgb}, ${isS ? 0.28 : isH ? 0.2 : 0.1})`; ctx.fill();
+            ctx.save();
+            ctx.shadowColor = `rgba(${rgb}, 0.9)`; ctx.shadowBlur = isS || isH ? 12 : 6;
+            ctx.strokeStyle = `rgba(${rgb}, ${isS || isH ? 0.9 : 0.45})`; ctx.lineWidth = isS ? 1.5 : 1; ctx.stroke();
+            ctx.restore();
 
-    config.data.cities.forEach(city => {
-        let x, y, isVis = false;
-        const c = proj([city.lng, city.lat]);
-        if (config.id === 'belt' && c) {
-            x = center[0] + (c[0]-center[0])*2.2; y = center[1] + (c[1]-center[1])*2.2; isVis = true;
-        } else if (c) {
-            isVis = d3.geoRotation(rotationRef.current)([city.lng, city.lat])[0] > -90 && d3.geoRotation(rotationRef.current)([city.lng, city.lat])[0] < 90;
-            if (isVis) { x = c[0]; y = c[1]; }
-        }
+            if (d3.geoDistance(centroid, viewCenter) < Math.PI / 2) {
+                const c = proj(centroid);
+                if (c) {
+                    ctx.font = `${isS || isH ? 'bold ' : ''}8px ${MONO_STACK}`; ctx.fillStyle = `rgba(${rgb}, ${isS || isH ? 0.9 : 0.45})`;
+                    ctx.textAlign = "center"; ctx.textBaseline = "middle"; ctx.fillText(zone.name, c[0], c[1]);
+                    ctx.textBaseline = "alphabetic";
+                }
+            }
+        });
+    }
 
-        if (isVis && x !== undefined && y !== undefined) {
-            visible.push({city, x, y});
-            const col = city.category === 'ICE' ? '#00FFFF' : city.category === 'AC' ? '#f472b6' : city.category === 'ANOMALY' ? '#ef4444' : city.category === 'MILITARY' ? '#fbbf24' : '#94a3b8';
-            const isH = city.name === hoveredItem?.name;
-            const isS = selectedCity?.name === city.name;
-            
-            ctx.beginPath();
-            ctx.arc(x, y, (isH || isS ? 6 : 4) + pulsePhase * 8, 0, Math.PI * 2);
-            ctx.strokeStyle = col; ctx.globalAlpha = 0.4 * (1 - pulsePhase); ctx.lineWidth = 1; ctx.stroke();
-            ctx.globalAlpha = 1;
+    // --- ROUTES (GREAT-CIRCLE ARCS + PACKET TRAFFIC) ---
+    if (!isBelt && resolvedRoutes.length > 0) {
+        const viewCenter: [number, number] = [-rotationRef.current[0], -rotationRef.current[1]];
+        resolvedRoutes.forEach(({ route, from, to, distance, interpolate }) => {
+            const rgb = ROUTE_COLORS[route.type || ''] || ROUTE_DEFAULT_COLOR;
+            const style = ROUTE_STATUS_STYLES[route.status || ''] || ROUTE_DEFAULT_STATUS;
+            ctx.beginPath(); path({ type: 'LineString', coordinates: [from, to] });
+            ctx.strokeStyle = `rgba(${rgb}, ${style.alpha})`; ctx.lineWidth = 1.2; ctx.setLineDash(style.dash); ctx.stroke();
+            ctx.setLineDash([]);
 
-            ctx.beginPath(); ctx.arc(x, y, isH || isS ? 4 : 2.5, 0, 2*Math.PI); ctx.fillStyle = isH || isS ? '#FFF' : col; ctx.fill();
-            
-            if (isS) {
-                const b = 12; ctx.strokeStyle = '#E42737'; ctx.lineWidth = 1.5; ctx.beginPath();
-                ctx.moveTo(x-b, y-b+4); ctx.lineTo(x-b, y-b); ctx.lineTo(x-b+4, y-b);
-                ctx.moveTo(x+b-4, y-b); ctx.lineTo(x+b, y-b); ctx.lineTo(x+b, y-b+4);
-                ctx.moveTo(x-b, y+b-4); ctx.lineTo(x-b, y+b); ctx.lineTo(x-b+4, y+b);
-                ctx.moveTo(x+b-4, y+b); ctx.lineTo(x+b, y+b); ctx.lineTo(x+b, y+b-4);
-                ctx.stroke();
+            if (!style.packets || distance === 0) return;
+            const count = Math.max(1, Math.round(distance * 3));
+            const head = (time * PACKET_SPEED / distance) % 1;
+            for (let i = 0; i < count; i++) {
+                const progress = (head + i / count) % 1;
+                for (let k = 0; k < 4; k++) {
+                    const tp = progress - k * 0.012 / distance;
+                    if (tp < 0) break;
+                    const geo = interpolate(tp);
+                    if (d3.geoDistance(geo, viewCenter) > Math.PI / 2) continue;
+                    const p = proj(geo); if (!p) continue;
+                    ctx.fillStyle = k === 0 ? '#FFF' : `rgba(${rgb}, ${0.8 - k * 0.2})`;
+                    ctx.beginPath(); ctx.arc(p[0], p[1], k === 0 ? 1.8 : 1.4 - k * 0.25, 0, Math.PI * 2); ctx.fill();
+                }
             }
+        });
+    }
+
+    // --- MEASUREMENT (GEODESIC + DISTANCE / ETA LABEL) ---
+    if (!isBelt && measure.length > 0) {
+        const viewCenter: [number, number] = [-rotationRef.current[0], -rotationRef.current[1]];
+        if (measure.length === 2) {
+            const [a, b] = measure;
+            ctx.beginPath(); path({ type: 'LineString', coordinates: [a.coords, b.coords] });
+            ctx.strokeStyle = '#FFF'; ctx.lineWidth = 1.5; ctx.setLineDash([4, 3]); ctx.stroke(); ctx.setLineDash([]);
 
-            if (!isH && !isS) { 
-                ctx.font = `9px ${MONO_STACK}`; ctx.fillStyle = 'rgba(255, 255, 255, 0.4)'; ctx.textAlign = "center"; ctx.fillText(city.name, x, y + 12); 
+            const mid = d3.geoInterpolate(a.coords, b.coords)(0.5);
+            const p = d3.geoDistance(mid, viewCenter) < Math.PI / 2 ? proj(mid) : null;
+            if (p) {
+                const km = greatCircleKm(a.coords, b.coords, config.radiusKm);
+                const speed = TRAVEL_SPEEDS[speedIndex];
+                const line1 = km !== null ? formatDistance(km) : `${arcDegrees(a.coords, b.coords).toFixed(1)}°`;
+                const line2 = km !== null ? `ETA ${formatDuration(km / speed.kmh)} // ${speed.label}` : 'RADIUS UNKNOWN';
+                ctx.font = `bold 10px ${MONO_STACK}`;
+                const bw = Math.max(ctx.measureText(line1).width, ctx.measureText(line2).width) + 16; const bh = 28;
+                ctx.fillStyle = 'rgba(10,10,10,0.9)'; ctx.fillRect(p[0] - bw / 2, p[1] - bh - 6, bw, bh);
+                ctx.strokeStyle = '#FFF'; ctx.lineWidth = 1; ctx.strokeRect(p[0] - bw / 2, p[1] - bh - 6, bw, bh);
+                ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+                ctx.fillStyle = '#FFF'; ctx.fillText(line1, p[0], p[1] - bh / 2 - 11);
+                ctx.font = `8px ${MONO_STACK}`; ctx.fillStyle = '#E42737'; ctx.fillText(line2, p[0], p[1] - bh / 2 - 1);
+                ctx.textBaseline = 'alphabetic';
             }
         }
+        measure.forEach((m, i) => {
+            if (d3.geoDistance(m.coords, viewCenter) > Math.PI / 2) return;
+            const p = proj(m.coords); if (!p) return;
+            ctx.strokeStyle = '#FFF'; ctx.lineWidth = 1.5; ctx.strokeRect(p[0] - 4, p[1] - 4, 8, 8);
+            ctx.font = `bold 8px ${MONO_STACK}`; ctx.fillStyle = '#FFF'; ctx.textAlign = 'left'; ctx.fillText(i === 0 ? 'A' : 'B', p[0] + 7, p[1] - 6);
+        });
+    }
+
+    const pulsePhase = (Math.sin(time / 400) + 1) / 2;
+    const visible: VisibleCity[] = [];
+
+    // Back-facing cities are culled by the sphere index before anything is projected
+    (isBelt ? config.data.cities : cityIndex.visible([-rotationRef.current[0], -rotationRef.current[1]])).forEach(city => {
+        const c = proj([city.lng, city.lat]);
+        if (!c) return;
+        if (isBelt) visible.push({ city, x: center[0] + (c[0]-center[0])*2.2, y: center[1] + (c[1]-center[1])*2.2, free: 1 });
+        else visible.push({ city, x: c[0], y: c[1], free: 1 });
+    });
+
+    // --- CLUSTERING ---
+    // Hovered and selected cities stay out of clusters. Members ease into the badge (and back out when the
+    // zoom separates them) via a per-city factor: 0 merged, 1 free.
+    const clusters = clusterScreenPoints(
+        visible.filter(v => v.city.name !== hoveredItem?.name && v.city.name !== selectedCity?.name).map(v => ({ x: v.x, y: v.y, item: v.city })),
+        CLUSTER_RADIUS
+    ).filter(cl => cl.members.length > 1);
+    const clusterOf = new Map<string, ScreenCluster<City>>();
+    clusters.forEach(cl => cl.members.forEach(m => clusterOf.set(m.item.name, cl)));
+    visible.forEach(v => {
+        const cl = clusterOf.get(v.city.name);
+        const state = mergeRef.current.get(v.city.name) || { f: cl ? 0 : 1, dx: 0, dy: 0 };
+        if (cl) { state.dx = cl.x - v.x; state.dy = cl.y - v.y; }
+        const target = cl ? 0 : 1;
+        state.f = Math.abs(target - state.f) < 0.01 ? target : state.f + (target - state.f) * 0.15;
+        mergeRef.current.set(v.city.name, state);
+        v.free = state.f;
+        v.x += state.dx * (1 - state.f); v.y += state.dy * (1 - state.f);
     });
 
-    visible.forEach(({city, x, y}) => {
-        const isHovered = hoveredItem?.name === city.name;
-        if (isHovered || selectedCity?.name === city.name) {
-            ctx.font = `bold 12px ${MONO_STACK}`;
-            const bw = ctx.measureText(city.name).width + 24; const bh = 28;
-            if (!labelPosRef.current.has(city.name)) labelPosRef.current.set(city.name, { x: x-bw/2, y: y+25 });
-            const cur = labelPosRef.current.get(city.name)!; cur.x += (x-bw/2 - cur.x)*0.2; cur.y += (y+25 - cur.y)*0.2;
-            ctx.beginPath(); ctx.strokeStyle = '#FFF'; ctx.lineWidth = 1; ctx.moveTo(x, y+5); ctx.lineTo(cur.x+bw/2, cur.y); ctx.stroke();
-            ctx.fillStyle = 'rgba(10,10,10,0.95)'; ctx.beginPath();
-            ctx.moveTo(cur.x, cur.y); ctx.lineTo(cur.x+bw, cur.y); ctx.lineTo(cur.x+bw, cur.y+bh-4); ctx.lineTo(cur.x+bw-4, cur.y+bh); ctx.lineTo(cur.x+4, cur.y+bh); ctx.lineTo(cur.x, cur.y+bh-4);
-            ctx.closePath(); ctx.fill(); ctx.strokeStyle = '#E42737'; ctx.stroke();
-            ctx.fillStyle = '#FFF'; ctx.textAlign = "center"; ctx.textBaseline = "middle";
-            ctx.fillText(city.name, cur.x+bw/2, cur.y+bh/2-5);
-            ctx.font = `8px ${MONO_STACK}`; ctx.fillStyle = '#E42737'; ctx.fillText(`${city.lat.toFixed(1)} // ${city.lng.toFixed(1)}`, cur.x+bw/2, cur.y+bh/2+7);
+    visible.forEach(({city, x, y, free}) => {
+        if (free < 0.02) return;
+        const col = CATEGORY_COLORS[city.category] || '#94a3b8';
+        const isH = city.name === hoveredItem?.name;
+        const isS = selectedCity?.name === city.name;
+
+        ctx.beginPath();
+        ctx.arc(x, y, (isH || isS ? 6 : 4) + pulsePhase * 8, 0, Math.PI * 2);
+        ctx.strokeStyle = col; ctx.globalAlpha = 0.4 * (1 - pulsePhase) * free; ctx.lineWidth = 1; ctx.stroke();
+        ctx.globalAlpha = free;
+
+        ctx.beginPath(); ctx.arc(x, y, isH || isS ? 4 : 2.5, 0, 2*Math.PI); ctx.fillStyle = isH || isS ? '#FFF' : col; ctx.fill();
+
+        if (isS) {
+            const b = 12; ctx.strokeStyle = '#E42737'; ctx.lineWidth = 1.5; ctx.beginPath();
+            ctx.moveTo(x-b, y-b+4); ctx.lineTo(x-b, y-b); ctx.lineTo(x-b+4, y-b);
+            ctx.moveTo(x+b-4, y-b); ctx.lineTo(x+b, y-b); ctx.lineTo(x+b, y-b+4);
+            ctx.moveTo(x-b, y+b-4); ctx.lineTo(x-b, y+b); ctx.lineTo(x-b+4, y+b);
+            ctx.moveTo(x+b-4, y+b); ctx.lineTo(x+b, y+b); ctx.lineTo(x+b, y+b-4);
+            ctx.stroke();
         }
+        ctx.globalAlpha = 1;
     });
-  }, [dims, config, hoveredItem, selectedCity]);
 
-  useEffect(() => {
-    const loop = (time: number) => {
-        if (!dragRef.current && !isAnimatingRef.current) {
-            rotationRef.current[0] += momentumRef.current.x; rotationRef.current[1] += momentumRef.current.y;
-            momentumRef.current.y *= 0.92; momentumRef.current.x = (momentumRef.current.x - 0.05) * 0.95 + 0.05;
+    // Count badges, ringed in the members' most common category colour
+    clusterHitRef.current = [];
+    clusters.forEach(cl => {
+        const counts = new Map<string, number>();
+        cl.members.forEach(m => counts.set(m.item.category, (counts.get(m.item.category) || 0) + 1));
+        const dominant = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+        const col = CATEGORY_COLORS[dominant as keyof typeof CATEGORY_COLORS] || '#94a3b8';
+        const merged = 1 - cl.members.reduce((sum, m) => sum + (mergeRef.current.get(m.item.name)?.f ?? 0), 0) / cl.members.length;
+        const r = 9 + Math.min(8, Math.log2(cl.members.length) * 2);
+        ctx.globalAlpha = merged;
+        ctx.beginPath(); ctx.arc(cl.x, cl.y, r + 3 + pulsePhase * 4, 0, Math.PI * 2);
+        ctx.strokeStyle = col; ctx.globalAlpha = merged * 0.3 * (1 - pulsePhase); ctx.lineWidth = 1; ctx.stroke();
+        ctx.globalAlpha = merged;
+        ctx.beginPath(); ctx.arc(cl.x, cl.y, r, 0, Math.PI * 2);
+        ctx.fillStyle = 'rgba(18, 18, 18, 0.9)'; ctx.fill(); ctx.strokeStyle = col; ctx.lineWidth = 1.5; ctx.stroke();
+        ctx.font = `bold 9px ${MONO_STACK}`; ctx.fillStyle = col; ctx.textAlign = "center"; ctx.textBaseline = "middle";
+        ctx.fillText(String(cl.members.length), cl.x, cl.y + 0.5);
+        ctx.textBaseline = "alphabetic"; ctx.globalAlpha = 1;
+        clusterHitRef.current.push({ x: cl.x, y: cl.y, r, cities: cl.members.map(m => m.item) });
+    });
+
+    const visibleKey = visible.map(v => v.city.name).join('|');
+    if (visibleKey !== visibleKeyRef.current) {
+        visibleKeyRef.current = visibleKey;
+        onVisibleTargetsChange?.(visible.map(v => v.city.name));
+    }
+
+    // --- LABELS ---
+    // Free markers and badges are obstacles. Selected and hovered cities always get their boxed label;
+    // the rest show a plain name only where one fits.
+    const labelObstacles: LabelBox[] = clusterHitRef.current.map(b => ({ x: b.x - b.r, y: b.y - b.r, w: b.r * 2, h: b.r * 2 }));
+    const labelRequests: LabelRequest[] = [];
+    visible.forEach(({city, x, y, free}) => {
+        const isS = selectedCity?.name === city.name;
+        const isFocus = isS || hoveredItem?.name === city.name;
+        if (free <= 0.5 && !isFocus) return;
+        const r = isFocus ? 6 : 4;
+        labelObstacles.push({ x: x - r, y: y - r, w: r * 2, h: r * 2 });
+        labelRequests.push(isFocus
+            ? { id: city.name, x, y, r, w: labelLayout.measure(ctx, `bold 12px ${MONO_STACK}`, city.name) + 24, h: 28, priority: isS ? LABEL_PRIORITY.SELECTED : LABEL_PRIORITY.HOVERED, required: true }
+            : { id: city.name, x, y, r, w: labelLayout.measure(ctx, `9px ${MONO_STACK}`, city.name), h: 10, priority: LABEL_PRIORITY.NORMAL });
+    });
+    const cityByName = new Map(visible.map(v => [v.city.name, v]));
+
+    [...labelLayout.place(labelRequests, labelObstacles, { width: dims.width, height: dims.height, smoothing: 0.2 })].reverse().forEach(label => {
+        const { x, y, r, priority } = label.request;
+        const { city, free } = cityByName.get(label.request.id)!;
+        const leader = leaderLine(x, y, r, label);
+        ctx.textAlign = "center"; ctx.textBaseline = "middle";
+        if (priority === LABEL_PRIORITY.NORMAL) {
+            ctx.globalAlpha = free;
+            if (leader && label.ring > 0) {
+                ctx.beginPath(); ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)'; ctx.lineWidth = 1; ctx.moveTo(leader.x1, leader.y1); ctx.lineTo(leader.x2, leader.y2); ctx.stroke();
+            }
+            ctx.font = `9px ${MONO_STACK}`; ctx.fillStyle = 'rgba(255, 255, 255, 0.4)'; ctx.fillText(city.name, label.x + label.w/2, label.y + label.h/2);
+            ctx.globalAlpha = 1;
+            return;
         }
-        render(time); animationRef.current = requestAnimationFrame(loop);
-    };
-    animationRef.current = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(animationRef.current);
+        const { x: bx, y: by, w: bw, h: bh } = label;
+        if (leader) { ctx.beginPath(); ctx.strokeStyle = '#FFF'; ctx.lineWidth = 1; ctx.moveTo(leader.x1, leader.y1); ctx.lineTo(leader.x2, leader.y2); ctx.stroke(); }
+        ctx.fillStyle = 'rgba(10,10,10,0.95)'; ctx.beginPath();
+        ctx.moveTo(bx, by); ctx.lineTo(bx+bw, by); ctx.lineTo(bx+bw, by+bh-4); ctx.lineTo(bx+bw-4, by+bh); ctx.lineTo(bx+4, by+bh); ctx.lineTo(bx, by+bh-4);
+        ctx.closePath(); ctx.fill(); ctx.strokeStyle = '#E42737'; ctx.stroke();
+        ctx.font = `bold 12px ${MONO_STACK}`; ctx.fillStyle = '#FFF';
+        ctx.fillText(city.name, bx+bw/2, by+bh/2-5);
+        ctx.font = `8px ${MONO_STACK}`; ctx.fillStyle = '#E42737'; ctx.fillText(`${city.lat.toFixed(1)} // ${city.lng.toFixed(1)}`, bx+bw/2, by+bh/2+7);
+    });
+    ctx.textBaseline = "alphabetic";
+  }, [dims, config, clock, isBelt, onVisibleTargetsChange, hoveredItem, selectedCity, resolvedRoutes, resolvedZones, hoveredZone, selectedZone, measure, speedIndex, labelLayout, cityIndex]);
+
+  // Momentum is per 60 Hz frame; `frames` keeps the spin speed when the scheduler drops to its idle rate
+  const step = useCallback((time: number, frames: number) => {
+    if (!dragRef.current && !isAnimatingRef.current) {
+        rotationRef.current[0] += momentumRef.current.x * frames; rotationRef.current[1] += momentumRef.current.y * frames;
+        const idle = idleSpinRef.current;
+        momentumRef.current.y *= 0.92 ** frames; momentumRef.current.x = (momentumRef.current.x - idle) * 0.95 ** frames + idle;
+    }
+    render(time);
   }, [render]);
 
+  // Full rate while the camera moves (drag, pinch, fly-to, zoom easing, momentum) or the terminator sweeps.
+  // Auto-rotation is motion too and counts as busy on purpose: a spin at the idle rate stutters visibly, so
+  // a visible, activated globe with autoRotate on always runs at full rate. Behind the activation overlay
+  // the scene only ever gets the idle rate.
+  const wake = useFrameScheduler(step, () => {
+    const m = momentumRef.current;
+    const { playing, warp } = clock.controls();
+    return !!dragRef.current || !!pinchRef.current || isAnimatingRef.current
+        || Math.abs(targetScaleRef.current - scaleRef.current) > 0.1
+        || Math.abs(m.x) > 0.001 || Math.abs(m.y) > 0.001
+        || (config.id === 'earth' && playing && Math.abs(warp) > 1);
+  }, !interactionsEnabled);
+
+  const homeRotation = (): [number, number, number] => {
+    const firstCity = config.data.cities[0];
+    return firstCity ? [-firstCity.lng, -firstCity.lat, 0] : [0, -30, 0];
+  };
+
   useEffect(() => {
-    if (config.data.cities.length > 0) {
-        const firstCity = config.data.cities[0];
-        rotationRef.current = [-firstCity.lng, -firstCity.lat, 0];
-    } else {
-        rotationRef.current = [0, -30, 0];
-    }
+    rotationRef.current = homeRotation();
+    setMeasure([]);
+    mergeRef.current.clear();
+    labelLayout.reset();
     const s = []; for (let i=0; i<400; i++) s.push({ x: Math.random()*2000, y: Math.random()*1000, opacity: Math.random() });
     starfieldRef.current = s;
-    fetch(WORLD_ATLAS_URL).then(r => r.json()).then(d => {
-        worldDataRef.current = d; landDataRef.current = (topojson as any).feature(d, d.objects.countries);
-    });
-    if (config.id === 'belt') {
+    if (isBelt) {
         const asteroids = []; for (let i = 0; i < 300; i++) asteroids.push({ lng: (Math.random() * 360) - 180, lat: (Math.random() * 40) - 20, alt: 1 + Math.random() * 1.5, size: Math.random() * 3 + 1, color: Math.random() > 0.8 ? '#E42737' : '#334155', opacity: Math.random() });
         asteroidFieldRef.current = asteroids;
     }
   }, [config.id]);
 
+  useEffect(() => { landDataRef.current = atlas.land; }, [atlas.land]);
+
   const handleStart = (clientX: number, clientY: number) => {
     if (!interactionsEnabled) return;
     setIsDragging(true);
@@ -281,28 +651,135 @@ export const Globe = forwardRef<GlobeHandle, GlobeProps>(({
     }
     
     const found = findCityAt(offsetX, offsetY);
-    if (found !== hoveredItem) { 
+    const overCluster = !found && !!findClusterAt(offsetX, offsetY);
+    const zone = found || overCluster ? null : findZoneAt(offsetX, offsetY);
+    if (found !== hoveredItem || zone !== hoveredZone || overCluster !== hoverClusterRef.current) { 
+        hoverClusterRef.current = overCluster;
         setHoveredItem(found || null); 
-        onHoverChange?.(!!found); 
+        setHoveredZone(zone);
+        onHoverChange?.(!!found || !!zone || overCluster); 
     }
   };
 
   const handleEnd = () => {
     setIsDragging(false);
+    if (dragRef.current) onCameraChange?.();
     dragRef.current = null;
   };
 
-  const handleInteractionClick = (clientX: number, clientY: number) => {
+  // Endpoints snap to cities; anywhere else on the visible disc is a free surface point. Off the disc clears.
+  const pickMeasurePoint = (offsetX: number, offsetY: number) => {
+    if (isBelt) return;
+    const city = findCityAt(offsetX, offsetY);
+    let point: MeasurePoint | null = city ? { coords: [city.lng, city.lat], label: city.name } : null;
+    if (!point) {
+      const proj = d3.geoOrthographic().scale(scaleRef.current).translate([dims.width / 2, dims.height / 2]).rotate(rotationRef.current);
+      const geo = proj.invert?.([offsetX, offsetY]);
+      if (geo && !Number.isNaN(geo[0]) && d3.geoDistance(geo, [-rotationRef.current[0], -rotationRef.current[1]]) <= Math.PI / 2) point = { coords: geo as GeoPoint };
+    }
+    setMeasure(prev => (!point ? [] : prev.length === 1 ? [prev[0], point] : [point]));
+  };
+
+  const findClusterAt = (offsetX: number, offsetY: number) =>
+    clusterHitRef.current.find(c => Math.hypot(offsetX - c.x, offsetY - c.y) <= c.r + 2)?.cities || null;
+
+  // Centre the members and magnify until their spread clears the clustering radius
+  const zoomToCluster = (cities: City[]) => {
+    const members: GeoJSON.MultiPoint = { type: 'MultiPoint', coordinates: cities.map(c => [c.lng, c.lat]) };
+    const centroid = d3.geoCentroid(members);
+    const spread = Math.max(...cities.map(c => d3.geoDistance([c.lng, c.lat], centroid)));
+    const needed = spread > 0 ? (CLUSTER_RADIUS * 2) / spread : MAX_SCALE;
+    targetScaleRef.current = Math.max(MIN_SCALE, Math.min(MAX_SCALE, Math.max(scaleRef.current * 1.5, needed)));
+    reportZoom();
+    if (!isBelt) animateRotation([-centroid[0], -centroid[1], 0]);
+  };
+
+  const measureLabel = (m: MeasurePoint) => m.label || `${m.coords[1].toFixed(1)} // ${m.coords[0].toFixed(1)}`;
+
+  const handleInteractionClick = (clientX: number, clientY: number, measureMode = false) => {
     if (!interactionsEnabled) return;
     const rect = canvasRef.current?.getBoundingClientRect();
     if (rect) {
       const offsetX = clientX - rect.left;
       const offsetY = clientY - rect.top;
+      if (measureMode) { pickMeasurePoint(offsetX, offsetY); return; }
+      const cluster = findClusterAt(offsetX, offsetY);
+      if (cluster) { zoomToCluster(cluster); return; }
       const target = findCityAt(offsetX, offsetY);
       if (target) {
         onSelect(target);
+        return;
+      }
+      const zone = findZoneAt(offsetX, offsetY);
+      if (zone) onSelectZone?.(zone);
+    }
+  };
+
+  const reportZoom = () => {
+    onZoomAutoChange?.(Math.round(((targetScaleRef.current - MIN_SCALE) / (MAX_SCALE - MIN_SCALE)) * 100));
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    e.preventDefault();
+    if (!interactionsEnabled) return;
+    if (e.touches.length >= 2) {
+      // A second finger turns the drag into a pinch; it can no longer end as a tap
+      const pinch = readPinch(e.touches[0], e.touches[1]);
+      pinchRef.current = { startScale: scaleRef.current, startDistance: pinch.distance, last: pinch };
+      if (tapRef.current) tapRef.current.cancelled = true;
+      dragRef.current = null; momentumRef.current = { x: 0, y: 0 };
+      return;
+    }
+    tapRef.current = startTap(e.touches[0].clientX, e.touches[0].clientY);
+    handleStart(e.touches[0].clientX, e.touches[0].clientY);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    e.preventDefault();
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || !interactionsEnabled) return;
+    const pinch = pinchRef.current;
+    if (pinch && e.touches.length >= 2) {
+      const next = readPinch(e.touches[0], e.touches[1]);
+      const [lambda, phi, gamma] = rotationRef.current;
+      // Moving both fingers together pans like a one-finger drag
+      rotationRef.current = [lambda + (next.center.x - pinch.last.center.x) * 0.25, phi - (next.center.y - pinch.last.center.y) * 0.25, gamma];
+      pinch.last = next;
+
+      // Zoom about the gesture centre: keep the point under the fingers fixed by rotating it back there
+      const scale = Math.max(MIN_SCALE, Math.min(MAX_SCALE, pinch.startScale * next.distance / pinch.startDistance));
+      const cx = next.center.x - rect.left, cy = next.center.y - rect.top;
+      const proj = d3.geoOrthographic().scale(scaleRef.current).translate([dims.width / 2, dims.height / 2]).rotate(rotationRef.current);
+      const anchor = proj.invert?.([cx, cy]);
+      scaleRef.current = scale; targetScaleRef.current = scale;
+      const moved = anchor && !isNaN(anchor[0]) ? proj.scale(scale)(anchor) : null;
+      if (moved && !isBelt) {
+        const degPerPx = 180 / Math.PI / scale;
+        rotationRef.current[0] += (cx - moved[0]) * degPerPx;
+        rotationRef.current[1] = Math.max(-90, Math.min(90, rotationRef.current[1] + (moved[1] - cy) * degPerPx));
       }
+      return;
+    }
+    const touch = e.touches[0];
+    if (tapRef.current) updateTap(tapRef.current, touch.clientX, touch.clientY);
+    handleMove(touch.clientX, touch.clientY, touch.clientX - rect.left, touch.clientY - rect.top);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (pinchRef.current) {
+      if (e.touches.length >= 2) return;
+      pinchRef.current = null;
+      reportZoom(); onCameraChange?.();
+      // The finger still down carries on as a drag from where it is now
+      if (e.touches.length === 1) handleStart(e.touches[0].clientX, e.touches[0].clientY);
+      else setIsDragging(false);
+      return;
     }
+    handleEnd();
+    // preventDefault on touchstart suppresses the synthetic click, so taps select here; drags keep their momentum instead
+    const touch = e.changedTouches[0];
+    if (isTap(tapRef.current)) handleInteractionClick(touch.clientX, touch.clientY);
+    tapRef.current = null;
   };
 
   return (
@@ -313,27 +790,18 @@ export const Globe = forwardRef<GlobeHandle, GlobeProps>(({
       onMouseMove={(e) => handleMove(e.clientX, e.clientY, e.nativeEvent.offsetX, e.nativeEvent.offsetY)}
       onMouseUp={handleEnd}
       onMouseLeave={handleEnd}
-      onTouchStart={(e) => { e.preventDefault(); handleStart(e.touches[0].clientX, e.touches[0].clientY); }}
-      onTouchMove={(e) => {
-          e.preventDefault();
-          const touch = e.touches[0];
-          const rect = canvasRef.current?.getBoundingClientRect();
-          if (rect) handleMove(touch.clientX, touch.clientY, touch.clientX - rect.left, touch.clientY - rect.top);
-      }}
-      onTouchEnd={(e) => {
-        handleEnd();
-        // Na mobile onClick może nie zadziałać stabilnie z preventDefault, wywołujemy ręcznie detekcję
-        const touch = e.changedTouches[0];
-        handleInteractionClick(touch.clientX, touch.clientY);
-      }}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
       onWheel={(e) => {
         if (interactionsEnabled) {
           targetScaleRef.current = Math.max(MIN_SCALE, Math.min(MAX_SCALE, targetScaleRef.current - e.deltaY * 0.5));
+          reportZoom();
         }
       }} 
-      onClick={(e) => handleInteractionClick(e.clientX, e.clientY)}
+      onClick={(e) => handleInteractionClick(e.clientX, e.clientY, e.shiftKey)}
     >
-       <canvas ref={canvasRef} className="block w-full h-full" />
+       <canvas ref={canvasRef} className="block w-full h-full" role="img" aria-label={`Orbital view of ${config.name}`} aria-describedby="scene-description" />
 
        {/* MINIMAL HUD STATUS - TOP LEFT */}
        <div className="absolute top-10 left-6 md:left-10 pointer-events-none z-50 font-mono flex flex-col items-start">
@@ -341,6 +809,36 @@ export const Globe = forwardRef<GlobeHandle, GlobeProps>(({
               <Crosshair size={12} className="text-[#E42737] animate-pulse" />
               <span className="text-[10px] text-[#E42737] font-black tracking-[0.5em] uppercase">SYSTEM.HUD // {config.name}</span>
           </div>
+          <span className="mt-1 text-[8px] text-white/30 font-bold tracking-[0.4em] uppercase">T // {formatSimDate(clockSnapshot.now)}{clockSnapshot.playing ? '' : ' // HOLD'}</span>
+          {config.id === 'earth' && atlas.status === 'LOADING' && (
+              <span className="mt-1 text-[8px] text-white/30 font-bold tracking-[0.4em] uppercase animate-pulse">GEODATA // SYNC...</span>
+          )}
+          {config.id === 'earth' && (atlas.status === 'DEGRADED' || atlas.status === 'OFFLINE') && (
+              <div className="mt-1 flex items-center gap-2 text-[#fbbf24]">
+                  <WifiOff size={10} />
+                  <span className="text-[8px] font-black tracking-[0.4em] uppercase">GEODATA OFFLINE/DEGRADED</span>
+                  <span className="text-[8px] text-white/30 font-bold tracking-[0.2em] uppercase">{atlas.status === 'DEGRADED' ? 'LOCAL 110M' : 'NO SURFACE'}</span>
+              </div>
+          )}
+          {measure.length > 0 && (
+              <div className="mt-3 flex flex-col items-start gap-1 pointer-events-auto" onMouseDown={(e) => e.stopPropagation()} onClick={(e) => e.stopPropagation()} onTouchStart={(e) => e.stopPropagation()}>
+                  <span className="text-[8px] text-white font-black tracking-[0.3em] uppercase">
+                      MEASURE // {measureLabel(measure[0])} → {measure[1] ? measureLabel(measure[1]) : 'SHIFT+CLICK'}
+                  </span>
+                  <div className="flex items-center gap-1">
+                      {TRAVEL_SPEEDS.map((speed, i) => (
+                          <button
+                              key={speed.label}
+                              onClick={() => setSpeedIndex(i)}
+                              aria-pressed={i === speedIndex}
+                              aria-label={`Travel speed ${speed.label}, ${speed.kmh} km/h`}
+                              className={`text-[7px] font-black tracking-[0.2em] px-1.5 py-0.5 border transition-all ${i === speedIndex ? 'text-white border-[#E42737] bg-[#E42737]/5' : 'text-white/30 border-transparent hover:text-white/60'}`}
+                          >{speed.label}</button>
+                      ))}
+                      <button onClick={() => setMeasure([])} className="p-0.5 text-white/30 hover:text-[#E42737] transition-colors" aria-label="Clear measurement"><X size={10} /></button>
+                  </div>
+              </div>
+          )}
        </div>
     </div>
   );
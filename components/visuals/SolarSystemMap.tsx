@@ -1,46 +1,48 @@
 
-import React, { useEffect, useRef, forwardRef, useImperativeHandle, useState, useCallback } from 'react';
-import { CelestialBodyConfig } from '../../types/index.ts';
+import React, { useEffect, useRef, forwardRef, useImperativeHandle, useState, useCallback, useMemo } from 'react';
+import { CelestialBodyConfig, MapCamera } from '../../types/index.ts';
+import { createBodyRegistry } from '../../data/bodyRegistry.ts';
+import { AU, computeBodyPositions, orbitAngle, sampleOrbitPath } from '../../utils/orbits.ts';
+import { SimulationClock, formatSimDate } from '../../utils/simulationClock.ts';
+import { ephemerisOrbit, isEphemerisEpochValid, julianEpoch } from '../../utils/ephemeris.ts';
+import { useClockSnapshot } from '../../hooks/useSimulationClock.ts';
+import { usePublishCursorProjection } from '../../hooks/useCursorProjection.ts';
+import { useFrameScheduler } from '../../hooks/useFrameScheduler.ts';
+import { PinchState, TapTracker, angleDelta, isTap, readPinch, startTap, updateTap } from '../../utils/gestures.ts';
+import { LABEL_PRIORITY, LabelBox, LabelRequest, createLabelLayout, leaderLine } from '../../utils/labelLayout.ts';
 import { Crosshair } from 'lucide-react';
 
 export interface SolarSystemMapHandle {
   setZoom: (value: number) => void;
+  getCamera: () => MapCamera;
+  setCamera: (camera: MapCamera, animate?: boolean) => void;
+  rotateBy: (dx: number, dy: number) => void;
+  // Back to the default tilt, tracking the current body at its focus zoom
+  resetCamera: () => void;
+  captureImage: () => Promise<Blob | null>;
+  // Keyboard focus: moves the hover highlight through navigable bodies currently on screen
+  cycleFocus: (step: number) => string | null;
+  selectFocused: () => boolean;
 }
 
 interface SolarSystemMapProps {
   bodies: CelestialBodyConfig[];
+  clock: SimulationClock;
   currentBodyId: string;
   onSelect: (id: string) => void;
   onHoverChange?: (isHovering: boolean) => void;
   onZoomAutoChange?: (zoomPercent: number) => void;
   interactionsEnabled?: boolean;
+  ephemerisMode?: boolean;
+  // Ids of navigable bodies on screen, reported when the set changes (scene description)
+  onVisibleTargetsChange?: (ids: string[]) => void;
 }
 
 const MONO_STACK = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace';
 
-const AU = 130;
-// Neutral color for passive planets
-const PASSIVE_COLOR = '#64748b'; 
-
-const ORBIT_CONFIG: Record<string, { distance: number; speed: number; startAngle: number; size: number; color: string; focusZoom: number }> = {
-    mercury: { distance: 0.39 * AU, speed: 1.5, startAngle: 20, size: 3, color: PASSIVE_COLOR, focusZoom: 2.5 },
-    venus: { distance: 0.72 * AU, speed: 1.1, startAngle: 160, size: 5, color: PASSIVE_COLOR, focusZoom: 2.0 },
-    earth: { distance: 1.00 * AU, speed: 0.8, startAngle: -45, size: 5.5, color: '#4F97E5', focusZoom: 1.8 }, 
-    moon: { distance: 15, speed: 6.0, startAngle: 90, size: 1.5, color: '#DDDDDD', focusZoom: 3.5 }, 
-    mars: { distance: 1.52 * AU, speed: 0.6, startAngle: 130, size: 4, color: '#E42737', focusZoom: 2.2 }, 
-    belt: { distance: 2.67 * AU, speed: 0.2, startAngle: 220, size: 4, color: '#555', focusZoom: 1.2 }, 
-    jupiter: { distance: 5.20 * AU, speed: 0.15, startAngle: -15, size: 12, color: PASSIVE_COLOR, focusZoom: 0.8 },
-    saturn: { distance: 9.54 * AU, speed: 0.1, startAngle: 70, size: 10, color: PASSIVE_COLOR, focusZoom: 0.7 },
-    uranus: { distance: 19.2 * AU, speed: 0.06, startAngle: 280, size: 7, color: PASSIVE_COLOR, focusZoom: 0.6 },
-    neptune: { distance: 30.06 * AU, speed: 0.04, startAngle: 10, size: 7, color: PASSIVE_COLOR, focusZoom: 0.6 },
-    io: { distance: 22, speed: 4.0, startAngle: 0, size: 1.2, color: '#F8F', focusZoom: 3.2 },
-    europa: { distance: 30, speed: 3.0, startAngle: 45, size: 1.2, color: '#AFA', focusZoom: 3.2 },
-    ganymede: { distance: 38, speed: 2.0, startAngle: 90, size: 1.6, color: '#AAF', focusZoom: 3.0 },
-    callisto: { distance: 46, speed: 1.0, startAngle: 135, size: 1.4, color: '#FFA', focusZoom: 3.0 },
-};
-
 export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapProps>(({ 
-  bodies, currentBodyId, onSelect, onHoverChange, onZoomAutoChange, interactionsEnabled = true
+  bodies, clock, currentBodyId, onSelect, onHoverChange, onZoomAutoChange, interactionsEnabled = true, ephemerisMode = false,
+  onVisibleTargetsChange
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -55,16 +57,22 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
   
   const cameraFocusRef = useRef({ x: 0, z: 0 });
   const dragRef = useRef<{ startX: number; startY: number; startRot: {x: number, y: number} } | null>(null);
+  // Degrees per frame carried over after a drag or twist, decaying like the globe's spin
+  const momentumRef = useRef({ x: 0, y: 0 });
+  const lastMoveRef = useRef<{ x: number; y: number } | null>(null);
+  const pinchRef = useRef<{ startZoom: number; startDistance: number; last: PinchState } | null>(null);
+  const tapRef = useRef<TapTracker | null>(null);
   const hoveredBodyRef = useRef<string | null>(null);
   const starfieldRef = useRef<any[]>([]);
   const beltParticlesRef = useRef<any[]>([]);
-  const labelPosRef = useRef<Map<string, { x: number, y: number }>>(new Map());
-  const animationRef = useRef<number>(0);
+  const [labelLayout] = useState(createLabelLayout);
   const isTrackingRef = useRef(false);
+  // setCamera / resetCamera easing runs on its own frames; the scheduler stays at full rate meanwhile
+  const isCameraAnimatingRef = useRef(false);
+  const visibleKeyRef = useRef('');
 
-  const targetIds = ['earth', 'moon', 'mars', 'belt', 'io', 'europa', 'ganymede', 'callisto'];
-  const passivePlanetIds = ['mercury', 'venus', 'jupiter', 'saturn', 'uranus', 'neptune'];
-  const jovianMoons = ['io', 'europa', 'ganymede', 'callisto'];
+  const registry = useMemo(() => createBodyRegistry(bodies), [bodies]);
+  const clockSnapshot = useClockSnapshot(clock, 1000);
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -80,6 +88,69 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
   useImperativeHandle(ref, () => ({
     setZoom: (value: number) => { 
         targetZoomRef.current = MIN_Z + (value / 100) * (MAX_Z - MIN_Z); 
+        wake();
+    },
+    getCamera: () => ({ rotation: { ...rotationRef.current }, zoom: targetZoomRef.current }),
+    setCamera: ({ rotation, zoom }, animate = true) => {
+        // Stop auto-framing so the stored angle wins over the body-tracking rotation
+        isTrackingRef.current = false;
+        momentumRef.current = { x: 0, y: 0 };
+        targetZoomRef.current = Math.max(MIN_Z, Math.min(MAX_Z, zoom));
+        wake();
+        if (!animate) { rotationRef.current = { ...rotation }; return; }
+        const start = { ...rotationRef.current };
+        const dy = ((rotation.y - start.y + 180) % 360 + 360) % 360 - 180;
+        const duration = 1200; let startTime: number | null = null;
+        const step = (t: number) => {
+            if (!startTime) startTime = t;
+            const k = 1 - Math.pow(1 - Math.min((t - startTime) / duration, 1), 3);
+            rotationRef.current = { x: start.x + (rotation.x - start.x) * k, y: start.y + dy * k };
+            isCameraAnimatingRef.current = k < 1 && !dragRef.current;
+            if (isCameraAnimatingRef.current) requestAnimationFrame(step);
+        };
+        isCameraAnimatingRef.current = true;
+        requestAnimationFrame(step);
+    },
+    resetCamera: () => {
+        momentumRef.current = { x: 0, y: 0 };
+        targetZoomRef.current = Math.max(MIN_Z, registry.get(currentBodyId)?.orbit?.focusZoom ?? 0.8);
+        reportZoom();
+        isTrackingRef.current = true;
+        const startX = rotationRef.current.x;
+        const duration = 800; let startTime: number | null = null;
+        const step = (t: number) => {
+            if (!startTime) startTime = t;
+            const k = 1 - Math.pow(1 - Math.min((t - startTime) / duration, 1), 3);
+            rotationRef.current.x = startX + (45 - startX) * k;
+            isCameraAnimatingRef.current = k < 1 && !dragRef.current;
+            if (isCameraAnimatingRef.current) requestAnimationFrame(step);
+        };
+        isCameraAnimatingRef.current = true;
+        wake();
+        requestAnimationFrame(step);
+    },
+    captureImage: () => new Promise(resolve => {
+        if (canvasRef.current) canvasRef.current.toBlob(resolve, 'image/png');
+        else resolve(null);
+    }),
+    rotateBy: (dx, dy) => {
+        isTrackingRef.current = false;
+        rotationRef.current = { x: Math.max(10, Math.min(90, rotationRef.current.x + dx)), y: rotationRef.current.y + dy };
+        wake();
+    },
+    cycleFocus: (step) => {
+        const ids = visibleKeyRef.current.split('|').filter(Boolean);
+        if (ids.length === 0) { hoveredBodyRef.current = null; wake(); return null; }
+        const current = hoveredBodyRef.current ? ids.indexOf(hoveredBodyRef.current) : -1;
+        const next = current === -1 ? (step > 0 ? 0 : ids.length - 1) : (current + step + ids.length) % ids.length;
+        hoveredBodyRef.current = ids[next];
+        wake();
+        return ids[next];
+    },
+    selectFocused: () => {
+        if (!hoveredBodyRef.current) return false;
+        onSelect(hoveredBodyRef.current);
+        return true;
     }
   }));
 
@@ -95,35 +166,47 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
   }, []);
 
   useEffect(() => {
-    if (!currentBodyId || !ORBIT_CONFIG[currentBodyId]) return;
+    const orbit = bodies.find(b => b.id === currentBodyId)?.orbit;
+    if (!orbit) return;
     isTrackingRef.current = true;
-    const targetZ = Math.max(MIN_Z, ORBIT_CONFIG[currentBodyId].focusZoom);
+    momentumRef.current = { x: 0, y: 0 };
+    const targetZ = Math.max(MIN_Z, orbit.focusZoom);
     targetZoomRef.current = targetZ;
     if (onZoomAutoChange) {
         const percent = Math.round(((targetZ - MIN_Z) / (MAX_Z - MIN_Z)) * 100);
         onZoomAutoChange(Math.max(0, Math.min(100, percent)));
     }
-  }, [currentBodyId, onZoomAutoChange, MIN_Z, MAX_Z]);
+  }, [bodies, currentBodyId, onZoomAutoChange, MIN_Z, MAX_Z]);
 
   const project3D = (x: number, y: number, z: number, cx: number, cy: number, rotX: number, rotY: number, scale: number, focusX: number, focusZ: number) => {
       const rx = x - focusX; const rz = z - focusZ; const ry = y;
       const radY = (rotY * Math.PI) / 180; const cosY = Math.cos(radY); const sinY = Math.sin(radY);
       const x1 = rx * cosY - rz * sinY; const z1 = rz * cosY + rx * sinY;
       const radX = (rotX * Math.PI) / 180; const cosX = Math.cos(radX); const sinX = Math.sin(radX);
-      const y2 = ry * cosX - z1 * sinX; 
-      return { x: cx + x1 * scale, y: cy + y2 * scale, scale: scale, z: z1, valid: true };
+      const y2 = ry * cosX - z1 * sinX; const z2 = ry * sinX + z1 * cosX;
+      return { x: cx + x1 * scale, y: cy + y2 * scale, scale: scale, z: z2, valid: true };
   };
 
-  const checkCollision = (box1: any, box2: any) => {
-    return (box1.x < box2.x + box2.w && box1.x + box1.w > box2.x && box1.y < box2.y + box2.h && box1.y + box1.h > box2.y);
-  };
+  // Inverse of project3D for points on the ecliptic (y = 0), for CursorHUD
+  const readCursor = useCallback((clientX: number, clientY: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || dims.width === 0) return null;
+    const scale = zoomRef.current;
+    const radX = (rotationRef.current.x * Math.PI) / 180; const radY = (rotationRef.current.y * Math.PI) / 180;
+    const x1 = (clientX - rect.left - dims.width / 2) / scale;
+    const z1 = -(clientY - rect.top - dims.height / 2) / (scale * Math.sin(radX));
+    const rx = x1 * Math.cos(radY) + z1 * Math.sin(radY);
+    const rz = z1 * Math.cos(radY) - x1 * Math.sin(radY);
+    return { kind: 'ecliptic' as const, x: (rx + cameraFocusRef.current.x) / AU, z: (rz + cameraFocusRef.current.z) / AU };
+  }, [dims]);
+  usePublishCursorProjection(readCursor);
 
   const findBodyAt = useCallback((mx: number, my: number) => {
     const hit = (canvasRef.current as any).hitRegions || []; 
     let found = hit.find((obj: any) => Math.hypot(mx - obj.x, my - obj.y) < 20 * obj.scale)?.id || null;
-    if (found && !targetIds.includes(found)) found = null;
+    if (found && !registry.isNavigable(found)) found = null;
     return found;
-  }, [targetIds]);
+  }, [registry]);
 
   const render = useCallback((time: number) => {
     const canvas = canvasRef.current; if (!canvas || dims.width === 0) return;
@@ -141,29 +224,14 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
     ctx.fillStyle = '#121212'; ctx.fillRect(0, 0, width, height);
 
     const cx = width / 2; const cy = height / 2; 
-    const t = time * 0.00004; 
+    const years = clock.years();
+    // Ephemeris mode: bodies with a mean-element key sit at their real heliocentric position for the simulated date
+    const simMs = clock.now();
+    const orbitAt = ephemerisMode ? (body: CelestialBodyConfig) => ephemerisOrbit(body, simMs) : undefined;
+    const positions = computeBodyPositions(bodies, years, orbitAt);
     
-    let targetWorldPos = { x: 0, z: 0 };
-    if (currentBodyId && ORBIT_CONFIG[currentBodyId]) {
-        const conf = ORBIT_CONFIG[currentBodyId];
-        if (jovianMoons.includes(currentBodyId)) {
-            const jConf = ORBIT_CONFIG['jupiter'];
-            const jA = jConf.startAngle * (Math.PI/180) + (t * jConf.speed);
-            const mIdx = jovianMoons.indexOf(currentBodyId);
-            const mA = (mIdx * 45 * Math.PI/180) + (t * conf.speed) + (conf.startAngle * Math.PI/180);
-            targetWorldPos.x = Math.cos(jA) * jConf.distance + Math.cos(mA) * conf.distance;
-            targetWorldPos.z = Math.sin(jA) * jConf.distance + Math.sin(mA) * conf.distance;
-        } else if (currentBodyId === 'moon') {
-            const eConf = ORBIT_CONFIG['earth'];
-            const eA = eConf.startAngle * (Math.PI/180) + (t * eConf.speed);
-            const mA = (conf.startAngle * Math.PI/180) + (t * conf.speed);
-            targetWorldPos.x = Math.cos(eA) * eConf.distance + Math.cos(mA) * conf.distance;
-            targetWorldPos.z = Math.sin(eA) * eConf.distance + Math.sin(mA) * conf.distance;
-        } else {
-            const angle = conf.startAngle * (Math.PI/180) + (t * conf.speed);
-            targetWorldPos.x = Math.cos(angle) * conf.distance;
-            targetWorldPos.z = Math.sin(angle) * conf.distance;
-        }
+    const targetWorldPos = positions.get(currentBodyId);
+    if (targetWorldPos) {
         cameraFocusRef.current.x += (targetWorldPos.x - cameraFocusRef.current.x) * 0.1;
         cameraFocusRef.current.z += (targetWorldPos.z - cameraFocusRef.current.z) * 0.1;
         
@@ -220,59 +288,58 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
     }
 
     const renderQueue: any[] = [];
-    Object.keys(ORBIT_CONFIG).forEach(key => {
-        if (['moon', ...jovianMoons].includes(key)) return;
-        const conf = ORBIT_CONFIG[key]; const a = conf.startAngle * (Math.PI/180) + (t * conf.speed);
-        const px = Math.cos(a) * conf.distance; const pz = Math.sin(a) * conf.distance;
-        const isSel = currentBodyId === key;
-        const p = project3D(px, 0, pz, cx, cy, rotationRef.current.x, rotationRef.current.y, zoomRef.current, focusX, focusZ);
-        if (p.valid) renderQueue.push({ id: key, x: p.x, y: p.y, z: p.z, scale: p.scale, config: conf, isSel });
-        
-        if (key !== 'belt') {
-            ctx.beginPath();
-            for (let i=0; i<=120; i++) {
-                const ap = (i/120)*Math.PI*2; const op = project3D(Math.cos(ap)*conf.distance, 0, Math.sin(ap)*conf.distance, cx, cy, rotationRef.current.x, rotationRef.current.y, zoomRef.current, focusX, focusZ);
-                i === 0 ? ctx.moveTo(op.x,op.y) : ctx.lineTo(op.x,op.y);
-            }
-            ctx.strokeStyle = isSel ? '#E42737' : 'rgba(100, 116, 139, 0.15)'; ctx.lineWidth = isSel ? 1.5 : 1; ctx.stroke();
+    bodies.forEach(body => {
+        const orbit = body.orbit; const pos = positions.get(body.id);
+        if (!orbit || !pos) return;
+        const isSel = currentBodyId === body.id;
+        const p = project3D(pos.x, pos.y, pos.z, cx, cy, rotationRef.current.x, rotationRef.current.y, zoomRef.current, focusX, focusZ);
+        // Foot of the body on the ecliptic, for the above/below-plane stalk
+        const foot = Math.abs(pos.y) > 0.5 ? project3D(pos.x, 0, pos.z, cx, cy, rotationRef.current.x, rotationRef.current.y, zoomRef.current, focusX, focusZ) : null;
+        if (p.valid) renderQueue.push({ id: body.id, name: body.name, isBelt: body.type === 'Asteroid Belt', x: p.x, y: p.y, z: p.z, scale: p.scale, config: orbit, isSel, foot, belowPlane: pos.y > 0 });
+        if (orbit.parent) return;
+
+        if (body.type !== 'Asteroid Belt') {
+            // Arcs below the ecliptic are traced separately and dimmed
+            const above = new Path2D(); const below = new Path2D();
+            let prev: { x: number, y: number, below: boolean } | null = null;
+            sampleOrbitPath(orbitAt?.(body) || orbit).forEach(pt => {
+                const op = project3D(pt.x, pt.y, pt.z, cx, cy, rotationRef.current.x, rotationRef.current.y, zoomRef.current, focusX, focusZ);
+                const isBelow = pt.y > 0;
+                if (prev) { const path = (isBelow && prev.below) ? below : above; path.moveTo(prev.x, prev.y); path.lineTo(op.x, op.y); }
+                prev = { x: op.x, y: op.y, below: isBelow };
+            });
+            ctx.strokeStyle = isSel ? '#E42737' : 'rgba(100, 116, 139, 0.15)'; ctx.lineWidth = isSel ? 1.5 : 1; ctx.stroke(above);
+            ctx.globalAlpha = 0.4; ctx.setLineDash([2, 4]); ctx.stroke(below); ctx.setLineDash([]); ctx.globalAlpha = 1;
         } else {
+            // Belt particles drift at half the belt's nominal rate
+            const drift = (orbitAngle(orbit, years) - orbit.phase * (Math.PI/180)) * 0.5;
+            const r = orbit.semiMajorAxis * AU;
             beltParticlesRef.current.forEach(bp => {
-                const bProj = project3D(Math.cos(bp.angle + t*conf.speed*0.5)*(conf.distance+bp.offset), bp.y, Math.sin(bp.angle + t*conf.speed*0.5)*(conf.distance+bp.offset), cx, cy, rotationRef.current.x, rotationRef.current.y, zoomRef.current, focusX, focusZ);
+                const bProj = project3D(Math.cos(bp.angle + drift)*(r+bp.offset), bp.y, Math.sin(bp.angle + drift)*(r+bp.offset), cx, cy, rotationRef.current.x, rotationRef.current.y, zoomRef.current, focusX, focusZ);
                 if (bProj.valid) {
                     ctx.fillStyle = isSel ? '#E42737' : 'rgba(100, 116, 139, 0.5)'; ctx.globalAlpha = bp.opacity * (isSel ? 1 : 0.4); ctx.fillRect(bProj.x, bProj.y, 1.3 * bProj.scale, 1.3 * bProj.scale);
                 }
             });
             ctx.globalAlpha = 1;
         }
-        
-        if (key === 'earth') {
-          const mConf = ORBIT_CONFIG['moon']; const mA = mConf.startAngle * (Math.PI/180) + (t * mConf.speed);
-          const mx = px + Math.cos(mA) * mConf.distance; const mz = pz + Math.sin(mA) * mConf.distance;
-          const mProj = project3D(mx, 0, mz, cx, cy, rotationRef.current.x, rotationRef.current.y, zoomRef.current, focusX, focusZ);
-          if (mProj.valid) renderQueue.push({ id: 'moon', x: mProj.x, y: mProj.y, z: mProj.z, scale: mProj.scale, config: mConf, isSel: currentBodyId === 'moon' });
-        }
-        
-        if (key === 'jupiter') {
-          jovianMoons.forEach((mId, idx) => {
-            const mConf = ORBIT_CONFIG[mId]; const mA = (idx * 45 * Math.PI/180) + (t * mConf.speed) + (mConf.startAngle * Math.PI/180);
-            const mx = px + Math.cos(mA) * mConf.distance; const mz = pz + Math.sin(mA) * mConf.distance;
-            const mProj = project3D(mx, 0, mz, cx, cy, rotationRef.current.x, rotationRef.current.y, zoomRef.current, focusX, focusZ);
-            if (mProj.valid) renderQueue.push({ id: mId, x: mProj.x, y: mProj.y, z: mProj.z, scale: mProj.scale, config: mConf, isSel: currentBodyId === mId });
-          });
-        }
     });
 
     renderQueue.sort((a, b) => b.z - a.z); 
-    const pulsePhase = (Math.sin(time / 400) + 1) / 2; const occupiedSpaces: any[] = [];
+    const pulsePhase = (Math.sin(time / 400) + 1) / 2; const labelObstacles: LabelBox[] = [];
     
     renderQueue.forEach(obj => {
-        const isHover = hoveredBodyRef.current === obj.id; const isTarget = targetIds.includes(obj.id); const isSelected = currentBodyId === obj.id;
+        const isHover = hoveredBodyRef.current === obj.id; const isTarget = registry.isNavigable(obj.id); const isSelected = currentBodyId === obj.id;
         const rad = Math.max(1, obj.config.size * obj.scale);
+        if (obj.foot) {
+            ctx.strokeStyle = obj.config.color || '#334155'; ctx.globalAlpha = obj.belowPlane ? 0.2 : 0.4; ctx.lineWidth = 1;
+            ctx.beginPath(); ctx.moveTo(obj.x, obj.y); ctx.lineTo(obj.foot.x, obj.foot.y); ctx.stroke();
+            ctx.beginPath(); ctx.arc(obj.foot.x, obj.foot.y, 1.5, 0, Math.PI * 2); ctx.stroke(); ctx.globalAlpha = 1;
+        }
         ctx.beginPath(); 
-        if(obj.id==='belt') { ctx.save(); ctx.translate(obj.x, obj.y); ctx.rotate(Math.PI/4); ctx.rect(-rad,-rad,rad*2,rad*2); ctx.restore(); }
+        if(obj.isBelt) { ctx.save(); ctx.translate(obj.x, obj.y); ctx.rotate(Math.PI/4); ctx.rect(-rad,-rad,rad*2,rad*2); ctx.restore(); }
         else { ctx.arc(obj.x, obj.y, rad, 0, Math.PI*2); }
         
-        if (!isTarget) { ctx.fillStyle = ORBIT_CONFIG[obj.id]?.color || '#334155'; ctx.fill(); }
+        if (!isTarget) { ctx.fillStyle = obj.config.color || '#334155'; ctx.fill(); }
         else {
             ctx.fillStyle = (isHover || isSelected) ? '#FFF' : '#E42737'; ctx.fill();
             if (isSelected) {
@@ -285,37 +352,39 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
             } else {
                 ctx.beginPath(); ctx.arc(obj.x, obj.y, rad + 2 + pulsePhase * 10, 0, Math.PI * 2); ctx.strokeStyle = '#E42737'; ctx.globalAlpha = 0.4 * (1 - pulsePhase); ctx.stroke(); ctx.globalAlpha = 1;
             }
-            occupiedSpaces.push({ x: obj.x - rad - 15, y: obj.y - rad - 15, w: (rad + 15)*2, h: (rad + 15)*2 });
         }
+        labelObstacles.push({ x: obj.x - rad - 4, y: obj.y - rad - 4, w: (rad + 4)*2, h: (rad + 4)*2 });
     });
 
+    // Navigation targets keep their label wherever they end up; passive bodies only show one where it fits
+    const labelRequests: LabelRequest[] = [];
     renderQueue.forEach(obj => {
-        const isTarget = targetIds.includes(obj.id);
-        const isPassive = passivePlanetIds.includes(obj.id);
-        if (!isTarget && !isPassive) return;
+        const isTarget = registry.isNavigable(obj.id);
+        if (!isTarget && !registry.isPassive(obj.id)) return;
+        const isSelected = currentBodyId === obj.id;
+        const textW = labelLayout.measure(ctx, isSelected ? `bold 12px ${MONO_STACK}` : `10px ${MONO_STACK}`, obj.name);
+        labelRequests.push({
+            id: obj.id, x: obj.x, y: obj.y, r: Math.max(1, obj.config.size * obj.scale) + 4,
+            w: isTarget ? textW + 20 : textW + 10, h: isTarget ? 22 : 14,
+            priority: isSelected ? LABEL_PRIORITY.SELECTED : hoveredBodyRef.current === obj.id ? LABEL_PRIORITY.HOVERED : LABEL_PRIORITY.NORMAL,
+            required: isTarget,
+        });
+    });
+    const objById = new Map(renderQueue.map(obj => [obj.id, obj]));
 
+    [...labelLayout.place(labelRequests, labelObstacles, { width, height, gap: 16, smoothing: 0.15 })].reverse().forEach(label => {
+        const obj = objById.get(label.request.id);
+        const isTarget = registry.isNavigable(obj.id);
         const isHover = hoveredBodyRef.current === obj.id; 
         const isSelected = currentBodyId === obj.id;
-        
-        let name = obj.id.toUpperCase();
-        if (obj.id === 'earth') name = 'TERRA';
-        else if (obj.id === 'moon') name = 'LUNA';
-        
+        const name = obj.name;
+        const { w: boxW, h: boxH } = label; const cur = label;
         ctx.font = isSelected ? `bold 12px ${MONO_STACK}` : `10px ${MONO_STACK}`;
-        const textW = ctx.measureText(name).width; 
-        const boxW = isTarget ? textW + 20 : textW + 10; 
-        const boxH = isTarget ? 22 : 14; 
-        const rad = Math.max(1, obj.config.size * obj.scale);
-        
-        const candidates = [{ x: obj.x - boxW/2, y: obj.y + rad + 20, w: boxW, h: boxH }, { x: obj.x - boxW/2, y: obj.y - rad - boxH - 20, w: boxW, h: boxH }, { x: obj.x + rad + 20, y: obj.y - boxH/2, w: boxW, h: boxH }, { x: obj.x - rad - boxW - 20, y: obj.y - boxH/2, w: boxW, h: boxH }];
-        let best = candidates[0]; for (const cand of candidates) { let col = false; for (const s of occupiedSpaces) if (checkCollision(cand, s)) { col = true; break; } if (!col) { best = cand; break; } }
-        occupiedSpaces.push(best);
-        if (!labelPosRef.current.has(obj.id)) labelPosRef.current.set(obj.id, { x: best.x, y: best.y });
-        const cur = labelPosRef.current.get(obj.id)!; cur.x += (best.x - cur.x) * 0.15; cur.y += (best.y - cur.y) * 0.15;
 
-        // Connector line
-        ctx.strokeStyle = isTarget ? ((isHover || isSelected) ? '#FFF' : 'rgba(228, 39, 55, 0.4)') : ORBIT_CONFIG[obj.id]?.color || '#FFF';
-        ctx.beginPath(); ctx.moveTo(obj.x, obj.y); ctx.lineTo(cur.x + boxW/2, cur.y + boxH/2); ctx.stroke();
+        // Connector line, from the marker edge to the nearest side of the label
+        ctx.strokeStyle = isTarget ? ((isHover || isSelected) ? '#FFF' : 'rgba(228, 39, 55, 0.4)') : obj.config.color || '#FFF';
+        const leader = leaderLine(obj.x, obj.y, label.request.r, label);
+        if (leader) { ctx.beginPath(); ctx.moveTo(leader.x1, leader.y1); ctx.lineTo(leader.x2, leader.y2); ctx.stroke(); }
 
         if (isTarget) {
             ctx.fillStyle = (isHover || isSelected) ? '#E42737' : 'rgba(10,10,10,0.95)';
@@ -324,26 +393,48 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
             ctx.fillStyle = (isHover || isSelected) ? '#000' : '#FFF'; ctx.textAlign = "center"; ctx.textBaseline = "middle"; ctx.fillText(name, cur.x + boxW/2, cur.y + boxH/2);
         } else {
             // Passive text label - no box, using planet color
-            ctx.fillStyle = ORBIT_CONFIG[obj.id]?.color || '#FFF';
+            ctx.fillStyle = obj.config.color || '#FFF';
             ctx.textAlign = "center"; ctx.textBaseline = "middle";
             ctx.fillText(name, cur.x + boxW/2, cur.y + boxH/2);
         }
     });
     
     (canvasRef.current as any).hitRegions = renderQueue;
-  }, [dims, currentBodyId, targetIds, jovianMoons, zoomRef, MIN_Z, MAX_Z, passivePlanetIds]);
 
-  useEffect(() => {
-    const loop = (time: number) => { render(time); animationRef.current = requestAnimationFrame(loop); };
-    animationRef.current = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(animationRef.current);
+    const visibleIds = bodies.map(b => b.id).filter(id => registry.isNavigable(id) && renderQueue.some(obj => obj.id === id && obj.x >= 0 && obj.x <= width && obj.y >= 0 && obj.y <= height));
+    if (visibleIds.join('|') !== visibleKeyRef.current) {
+        visibleKeyRef.current = visibleIds.join('|');
+        onVisibleTargetsChange?.(visibleIds);
+    }
+  }, [dims, bodies, clock, ephemerisMode, onVisibleTargetsChange, currentBodyId, registry, zoomRef, MIN_Z, MAX_Z, labelLayout]);
+
+  const step = useCallback((time: number, frames: number) => {
+    const m = momentumRef.current;
+    if (!dragRef.current && !pinchRef.current && (Math.abs(m.x) > 0.001 || Math.abs(m.y) > 0.001)) {
+        rotationRef.current.y += m.y * frames;
+        rotationRef.current.x = Math.max(10, Math.min(90, rotationRef.current.x + m.x * frames));
+        m.x *= 0.92 ** frames; m.y *= 0.92 ** frames;
+    }
+    render(time);
   }, [render]);
 
+  // Full rate while the camera moves or eases, and while the clock runs fast enough for orbits to visibly
+  // advance (real time does not)
+  const wake = useFrameScheduler(step, () => {
+    const m = momentumRef.current;
+    const { playing, warp } = clock.controls();
+    return !!dragRef.current || !!pinchRef.current || isTrackingRef.current || isCameraAnimatingRef.current
+        || Math.abs(targetZoomRef.current - zoomRef.current) > 0.0001
+        || Math.abs(m.x) > 0.001 || Math.abs(m.y) > 0.001
+        || (playing && Math.abs(warp) > 1);
+  }, !interactionsEnabled);
+
   const handleStart = (clientX: number, clientY: number) => {
     if (!interactionsEnabled) return;
     setIsDragging(true);
     isTrackingRef.current = false;
     dragRef.current = { startX: clientX, startY: clientY, startRot: { ...rotationRef.current } };
+    lastMoveRef.current = { x: clientX, y: clientY }; momentumRef.current = { x: 0, y: 0 };
   };
 
   const handleMove = (clientX: number, clientY: number) => {
@@ -351,11 +442,13 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
     if (dragRef.current) {
         rotationRef.current.y = dragRef.current.startRot.y + (clientX - dragRef.current.startX) * 0.5;
         rotationRef.current.x = Math.max(10, Math.min(90, dragRef.current.startRot.x + (clientY - dragRef.current.startY) * 0.5));
+        if (lastMoveRef.current) momentumRef.current = { x: (clientY - lastMoveRef.current.y) * 0.4, y: (clientX - lastMoveRef.current.x) * 0.4 };
+        lastMoveRef.current = { x: clientX, y: clientY };
     }
     if (canvasRef.current) {
         const rect = canvasRef.current.getBoundingClientRect(); const mx = clientX - rect.left; const my = clientY - rect.top;
         const found = findBodyAt(mx, my);
-        if (found !== hoveredBodyRef.current) { hoveredBodyRef.current = found; onHoverChange?.(!!found); }
+        if (found !== hoveredBodyRef.current) { hoveredBodyRef.current = found; onHoverChange?.(!!found); wake(); }
     }
   };
 
@@ -368,7 +461,64 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
     if (interactionsEnabled) {
       const delta = -e.deltaY * 0.001;
       targetZoomRef.current = Math.max(MIN_Z, Math.min(MAX_Z, targetZoomRef.current + delta));
+      reportZoom();
+    }
+  };
+
+  const reportZoom = () => {
+    onZoomAutoChange?.(Math.round(((targetZoomRef.current - MIN_Z) / (MAX_Z - MIN_Z)) * 100));
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    e.preventDefault();
+    if (!interactionsEnabled) return;
+    if (e.touches.length >= 2) {
+      const pinch = readPinch(e.touches[0], e.touches[1]);
+      pinchRef.current = { startZoom: zoomRef.current, startDistance: pinch.distance, last: pinch };
+      if (tapRef.current) tapRef.current.cancelled = true;
+      isTrackingRef.current = false;
+      dragRef.current = null; momentumRef.current = { x: 0, y: 0 };
+      return;
+    }
+    tapRef.current = startTap(e.touches[0].clientX, e.touches[0].clientY);
+    handleStart(e.touches[0].clientX, e.touches[0].clientY);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    e.preventDefault();
+    if (!interactionsEnabled) return;
+    const pinch = pinchRef.current;
+    if (pinch && e.touches.length >= 2) {
+      const next = readPinch(e.touches[0], e.touches[1]);
+      // Twisting clockwise on screen turns the system clockwise (seen from above, the y rotation runs the other way)
+      const twist = -angleDelta(pinch.last.angle, next.angle) * 180 / Math.PI;
+      rotationRef.current.y += twist;
+      momentumRef.current = { x: 0, y: twist * 0.8 };
+      pinch.last = next;
+      // The camera stays locked on the tracked body, so the pinch scales about it rather than the finger midpoint
+      const zoom = Math.max(MIN_Z, Math.min(MAX_Z, pinch.startZoom * next.distance / pinch.startDistance));
+      zoomRef.current = zoom; targetZoomRef.current = zoom;
+      return;
+    }
+    const touch = e.touches[0];
+    if (tapRef.current) updateTap(tapRef.current, touch.clientX, touch.clientY);
+    handleMove(touch.clientX, touch.clientY);
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (pinchRef.current) {
+      if (e.touches.length >= 2) return;
+      pinchRef.current = null;
+      reportZoom();
+      // The finger still down carries on as a drag from where it is now
+      if (e.touches.length === 1) handleStart(e.touches[0].clientX, e.touches[0].clientY);
+      else setIsDragging(false);
+      return;
     }
+    handleEnd();
+    const touch = e.changedTouches[0];
+    if (isTap(tapRef.current)) handleInteractionClick(touch.clientX, touch.clientY);
+    tapRef.current = null;
   };
 
   const handleInteractionClick = (clientX: number, clientY: number) => {
@@ -384,18 +534,14 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
 
   return (
     <div ref={containerRef} className={`absolute inset-0 overflow-hidden bg-[#121212] cursor-none ${interactionsEnabled ? 'touch-none pointer-events-auto' : 'touch-auto pointer-events-none'}`}>
-      <canvas ref={canvasRef} className="w-full h-full block" 
+      <canvas ref={canvasRef} className="w-full h-full block" role="img" aria-label="Solar system map" aria-describedby="scene-description" 
         onMouseDown={(e) => handleStart(e.clientX, e.clientY)} 
         onMouseMove={(e) => handleMove(e.clientX, e.clientY)} 
         onMouseUp={handleEnd}
         onMouseLeave={handleEnd}
-        onTouchStart={(e) => { e.preventDefault(); handleStart(e.touches[0].clientX, e.touches[0].clientY); }}
-        onTouchMove={(e) => { e.preventDefault(); handleMove(e.touches[0].clientX, e.touches[0].clientY); }}
-        onTouchEnd={(e) => {
-          handleEnd();
-          const touch = e.changedTouches[0];
-          handleInteractionClick(touch.clientX, touch.clientY);
-        }}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
         onWheel={handleWheel}
         onClick={(e) => handleInteractionClick(e.clientX, e.clientY)} />
         
@@ -404,7 +550,12 @@ export const SolarSystemMap = forwardRef<SolarSystemMapHandle, SolarSystemMapPro
           <div className="flex items-center gap-2 opacity-80">
               <Crosshair size={12} className="text-[#E42737] animate-pulse" />
               <span className="text-[10px] text-[#E42737] font-black tracking-[0.5em] uppercase">SYSTEM.MAP // {currentBodyId}</span>
+              {ephemerisMode && <span className="text-[10px] text-white/60 font-black tracking-[0.3em] uppercase">// EPH {julianEpoch(clockSnapshot.now)}</span>}
+              {ephemerisMode && !isEphemerisEpochValid(clockSnapshot.now) && (
+                <span className="text-[10px] text-[#E42737] font-black tracking-[0.3em] uppercase">// OUT OF RANGE 1800–2050</span>
+              )}
           </div>
+          <span className="mt-1 text-[8px] text-white/30 font-bold tracking-[0.4em] uppercase">T // {formatSimDate(clockSnapshot.now)}{clockSnapshot.playing ? '' : ' // HOLD'}</span>
       </div>
     </div>
   );
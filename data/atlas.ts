@@ -0,0 +1,61 @@
+
+import * as topojson from 'topojson-client';
+import type { GeometryObject, Topology } from 'topojson-specification';
+import { WORLD_ATLAS_URL } from './constants.ts';
+
+export type AtlasStatus = 'LOADING' | 'ONLINE' | 'DEGRADED' | 'OFFLINE';
+
+export interface AtlasState {
+  status: AtlasStatus;
+  land: AtlasLand | null;
+}
+
+const FETCH_TIMEOUT_MS = 8000;
+
+let atlasPromise: Promise<AtlasState> | null = null;
+
+// Remote topology uses `countries`, the bundled low-res one only `land`
+type AtlasTopology = Topology<{ countries?: GeometryObject; land?: GeometryObject }>;
+
+const toLand = (topology: AtlasTopology) => {
+  const object = topology.objects.countries || topology.objects.land;
+  if (!object) throw new Error('Atlas topology has neither countries nor land');
+  return topojson.feature(topology, object);
+};
+
+export type AtlasLand = ReturnType<typeof toLand>;
+
+const fetchRemoteAtlas = async () => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const res = await fetch(WORLD_ATLAS_URL, { signal: controller.signal });
+    if (!res.ok) throw new Error(`Atlas request failed: ${res.status}`);
+    return toLand(await res.json() as AtlasTopology);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const loadBundledAtlas = async () => {
+  const mod = await import('./world-atlas-land-110m.json');
+  return toLand(mod.default as AtlasTopology);
+};
+
+// Loaded once per page and shared by every Globe instance / body switch
+export const loadWorldAtlas = (): Promise<AtlasState> => {
+  if (!atlasPromise) {
+    atlasPromise = fetchRemoteAtlas()
+      .then((land): AtlasState => ({ status: 'ONLINE', land }))
+      .catch(async (err) => {
+        console.warn('World atlas unreachable, using bundled fallback.', err);
+        try {
+          return { status: 'DEGRADED', land: await loadBundledAtlas() };
+        } catch (fallbackErr) {
+          console.warn('Bundled atlas failed to load.', fallbackErr);
+          return { status: 'OFFLINE', land: null };
+        }
+      });
+  }
+  return atlasPromise;
+};
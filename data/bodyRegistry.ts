@@ -0,0 +1,33 @@
+
+import { BodyCapabilities, BodyID, CelestialBodyConfig } from '../types/index.ts';
+
+// Bodies without declared capabilities are drawn as passive labels only
+const DEFAULT_CAPABILITIES: BodyCapabilities = { navigable: false, orbitView: false, passive: true };
+
+export const getCapabilities = (body: CelestialBodyConfig): BodyCapabilities => ({ ...DEFAULT_CAPABILITIES, ...body.capabilities });
+
+export interface BodyRegistry {
+  bodies: CelestialBodyConfig[];
+  navigable: CelestialBodyConfig[];
+  get: (id: BodyID) => CelestialBodyConfig | undefined;
+  isNavigable: (id: BodyID) => boolean;
+  hasOrbitView: (id: BodyID) => boolean;
+  isPassive: (id: BodyID) => boolean;
+}
+
+// Single source for "which bodies can be targeted / opened / only labelled"
+export const createBodyRegistry = (bodies: CelestialBodyConfig[]): BodyRegistry => {
+  const byId = new Map<BodyID, CelestialBodyConfig>(bodies.map(b => [b.id, b]));
+  const caps = (id: BodyID) => {
+    const body = byId.get(id);
+    return body ? getCapabilities(body) : null;
+  };
+  return {
+    bodies,
+    navigable: bodies.filter(b => getCapabilities(b).navigable),
+    get: (id) => byId.get(id),
+    isNavigable: (id) => !!caps(id)?.navigable,
+    hasOrbitView: (id) => !!caps(id)?.orbitView,
+    isPassive: (id) => !!caps(id)?.passive,
+  };
+};
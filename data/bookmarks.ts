@@ -0,0 +1,38 @@
+
+import { CameraBookmark } from '../types/index.ts';
+import { DatasetIssue, formatIssue, validateBookmarks } from './validation.ts';
+
+export const BOOKMARKS_STORAGE_KEY = 'igz.bookmarks.v1';
+
+// Corrupt or foreign storage contents are dropped rather than breaking startup
+export const loadStoredBookmarks = (): CameraBookmark[] => {
+  try {
+    const raw = window.localStorage.getItem(BOOKMARKS_STORAGE_KEY);
+    if (!raw) return [];
+    const { bookmarks, issues } = validateBookmarks(JSON.parse(raw));
+    if (!bookmarks) console.warn(`Stored bookmarks ignored:\n${issues.map(formatIssue).join('\n')}`);
+    return bookmarks || [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeBookmarks = (bookmarks: CameraBookmark[]) => {
+  try {
+    window.localStorage.setItem(BOOKMARKS_STORAGE_KEY, JSON.stringify(bookmarks));
+  } catch (err) {
+    console.warn('Bookmarks could not be saved.', err);
+  }
+};
+
+export const bookmarksToJson = (bookmarks: CameraBookmark[]) => JSON.stringify({ bookmarks }, null, 2);
+
+export const readBookmarkFile = async (file: File): Promise<{ bookmarks: CameraBookmark[] | null; issues: DatasetIssue[] }> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    return { bookmarks: null, issues: [{ path: file.name, message: 'is not valid JSON' }] };
+  }
+  return validateBookmarks(json);
+};
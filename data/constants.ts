@@ -1,8 +1,27 @@
 
-import { CelestialBodyConfig, GlobeData } from '../types/index.ts';
+import { BodyCapabilities, CelestialBodyConfig, GlobeData, LocationCategory } from '../types/index.ts';
 
 export const WORLD_ATLAS_URL = "https://cdn.jsdelivr.net/npm/world-atlas@2/countries-110m.json";
 
+// External CelestialBodyConfig dataset; empty = built-in SOLAR_SYSTEM_DATA. Overridable with `?dataset=<url>`
+export const DATASET_URL = "";
+
+// Neutral color for passive planets in the system map
+const PASSIVE_COLOR = '#64748b';
+
+// Body capability presets (see data/bodyRegistry.ts)
+const TARGET_BODY: BodyCapabilities = { navigable: true, orbitView: true, passive: false };
+const PASSIVE_BODY: BodyCapabilities = { navigable: false, orbitView: false, passive: true };
+
+// --- CATEGORY COLORS (HUD THEME) ---
+export const CATEGORY_COLORS: Record<LocationCategory, string> = {
+  ICE: '#00FFFF',
+  AC: '#f472b6',
+  WILD: '#94a3b8',
+  MILITARY: '#fbbf24',
+  ANOMALY: '#ef4444',
+};
+
 // --- EARTH DATA ---
 const EARTH_DATA: GlobeData = {
   cities: [
@@ -20,10 +39,27 @@ const EARTH_DATA: GlobeData = {
     { name: 'WARSAW ZERO', lat: 52.2, lng: 21.0, category: 'ANOMALY', faction: 'NULL', type: 'Zone.Exclusion', population: '0', status: 'RADIATION', description: 'Data corruption epicenter.' },
   ],
   routes: [
-    { from: 'NY-PRIME', to: 'LONDON SPIRE' },
-    { from: 'LONDON SPIRE', to: 'EURO-FORGE' },
-    { from: 'TOKYO METROPLEX', to: 'SHANGHAI LINK' },
-    { from: 'TOKYO METROPLEX', to: 'SF-SILICON' },
+    { from: 'NY-PRIME', to: 'LONDON SPIRE', type: 'DATA', status: 'ACTIVE' },
+    { from: 'LONDON SPIRE', to: 'EURO-FORGE', type: 'DATA', status: 'ACTIVE' },
+    { from: 'TOKYO METROPLEX', to: 'SHANGHAI LINK', type: 'DATA', status: 'ACTIVE' },
+    { from: 'TOKYO METROPLEX', to: 'SF-SILICON', type: 'DATA', status: 'ACTIVE' },
+    { from: 'SF-SILICON', to: 'NY-PRIME', type: 'DATA', status: 'DEGRADED' },
+    { from: 'SINGAPUR PORT', to: 'GENEWA ENCLAVE', type: 'TRANSIT', status: 'ACTIVE' },
+    { from: 'SVALBARD VAULT', to: 'GENEWA ENCLAVE', type: 'SUPPLY', status: 'ACTIVE' },
+    { from: 'WARSAW ZERO', to: 'EURO-FORGE', type: 'DATA', status: 'OFFLINE' },
+  ],
+  // Exterior rings run clockwise (d3-geo spherical convention)
+  zones: [
+    { name: 'ATLANTIC GRID', category: 'ICE', faction: 'ICE', type: 'Zone.Network', status: 'OPTIMAL', description: 'Regulated data corridor between the Atlantic primary nodes.',
+      geometry: { type: 'Polygon', coordinates: [[[-80, 36], [-80, 48], [-40, 56], [-5, 58], [12, 54], [12, 46], [-10, 44], [-45, 40], [-80, 36]]] } },
+    { name: 'PAC-RIM SPHERE', category: 'ICE', faction: 'ICE', type: 'Zone.Network', status: 'OPTIMAL', description: 'Tokyo-Shanghai processing belt.',
+      geometry: { type: 'Polygon', coordinates: [[[115, 25], [115, 42], [145, 44], [145, 30], [115, 25]]] } },
+    { name: 'ALPINE NEUTRAL', category: 'AC', faction: 'AC', type: 'Zone.Diplomatic', status: 'MONITORED', description: 'Accord-protected territory around the Genewa enclave.',
+      geometry: { type: 'Polygon', coordinates: [[[5, 45], [5.5, 47.5], [10.5, 47.8], [10, 45.5], [5, 45]]] } },
+    { name: 'WARSAW EXCLUSION', category: 'ANOMALY', faction: 'NULL', type: 'Zone.Exclusion', population: '0', status: 'RADIATION', description: 'Quarantine perimeter around the corruption epicenter.',
+      geometry: { type: 'Polygon', coordinates: [[[18, 50.5], [18, 54], [24, 54], [24, 50.5], [18, 50.5]]] } },
+    { name: 'OUTBACK BLACKZONE', category: 'MILITARY', faction: 'CLF', type: 'Zone.Restricted', status: 'ENCRYPTED', description: 'Signal-dark territory surrounding Pine Gap.',
+      geometry: { type: 'MultiPolygon', coordinates: [[[[126, -30], [126, -18], [140, -18], [140, -30], [126, -30]]], [[[144, -12], [144, -10], [146, -10], [146, -12], [144, -12]]]] } },
   ]
 };
 
@@ -36,6 +72,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(255, 100, 100, 0.1)', 
     description: 'Scorched rock close to Sol. Massive solar arrays harvest raw energy for the system.', 
     stats: { gravity: '3.7 m/s²', temperature: '167°C', population: '15K', atmosphere: 'NONE' }, 
+    radiusKm: 2439.7,
+    orbit: { ephemeris: 'mercury', semiMajorAxis: 0.39, period: 0.533, phase: 20, eccentricity: 0.206, inclination: 7.0, argumentOfPeriapsis: 29.1, ascendingNode: 48.3, size: 3, focusZoom: 2.5, color: PASSIVE_COLOR },
+    capabilities: PASSIVE_BODY,
     data: { cities: [{ name: 'HELIOS-1', lat: 0, lng: 0, category: 'ICE', faction: 'Energy Corp' }] }
   },
   {
@@ -46,6 +85,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(255, 100, 0, 0.2)', 
     description: 'Toxic atmosphere and extreme pressure. Floating cloud-cities serve as chemical processing plants.', 
     stats: { gravity: '8.87 m/s²', temperature: '464°C', population: '1.2M', atmosphere: 'CO2/N2' }, 
+    radiusKm: 6051.8,
+    orbit: { ephemeris: 'venus', semiMajorAxis: 0.72, period: 0.727, phase: 160, eccentricity: 0.007, inclination: 3.39, argumentOfPeriapsis: 54.9, ascendingNode: 76.7, size: 5, focusZoom: 2.0, color: PASSIVE_COLOR },
+    capabilities: PASSIVE_BODY,
     data: { cities: [{ name: 'AEROHAVEN', lat: 10, lng: 20, category: 'AC', faction: 'Cloud Walkers' }] } 
   },
   {
@@ -56,6 +98,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(0, 255, 255, 0.2)',
     description: 'The cradle of humanity and the central hub of the ICE Network. Heavily urbanized and regulated.',
     stats: { gravity: '9.81 m/s²', temperature: '14.9°C', population: '12.5B', atmosphere: 'N2/O2/Ar' }, 
+    radiusKm: 6371.0,
+    orbit: { ephemeris: 'earth', semiMajorAxis: 1.00, period: 1, phase: -45, eccentricity: 0.017, argumentOfPeriapsis: 102.9, size: 5.5, focusZoom: 1.8, color: '#4F97E5' },
+    capabilities: TARGET_BODY,
     data: EARTH_DATA
   },
   {
@@ -66,6 +111,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(0,0,0,0)',
     description: 'Industrial mining zone for Helium-3. Low-gravity manufacturing and orbital shipyards.',
     stats: { gravity: '1.62 m/s²', temperature: '-23°C', population: '250K', atmosphere: 'NONE' },
+    radiusKm: 1737.4,
+    orbit: { parent: 'earth', semiMajorAxis: 0.115, period: 0.133, phase: 90, eccentricity: 0.055, inclination: 5.1, size: 1.5, focusZoom: 3.5, color: '#DDDDDD' },
+    capabilities: TARGET_BODY,
     data: { cities: [{ name: 'HEL-3 MINES', lat: 0.6, lng: 23.4, category: 'ICE', faction: 'ICE', type: 'Extraction', population: '25K', status: 'ACTIVE' }, { name: 'TYCHO NODE', lat: -43.3, lng: -11.3, category: 'WILD', faction: 'CLF', type: 'Hidden', status: 'HOSTILE' }] }
   },
   {
@@ -76,6 +124,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(244, 114, 182, 0.1)',
     description: 'Terraforming project in progress. The Red Planet serves as the secondary capital of the system.',
     stats: { gravity: '3.72 m/s²', temperature: '-63°C', population: '52M', atmosphere: 'CO2/Ar' },
+    radiusKm: 3389.5,
+    orbit: { ephemeris: 'mars', semiMajorAxis: 1.52, period: 1.333, phase: 130, eccentricity: 0.093, inclination: 1.85, argumentOfPeriapsis: 286.5, ascendingNode: 49.6, size: 4, focusZoom: 2.2, color: '#E42737' },
+    capabilities: TARGET_BODY,
     data: { cities: [{ name: 'NEW UTOPIA', lat: -14.6, lng: -78.5, category: 'AC', faction: 'AC', type: 'Colony', population: '52M', status: 'STABLE' }] }
   },
   {
@@ -86,6 +137,8 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(0,0,0,0)',
     description: 'A lawless frontier of loose rocks and rogue factions. Rich in rare minerals, poor in laws.',
     stats: { gravity: '~0 m/s²', temperature: '-73°C', population: '3.1M', atmosphere: 'NONE' },
+    orbit: { semiMajorAxis: 2.67, period: 4, phase: 220, size: 4, focusZoom: 1.2, color: '#555' },
+    capabilities: TARGET_BODY,
     data: { cities: [{ name: 'CERES STN', lat: 0, lng: 0, category: 'WILD', faction: 'CLF' }] }
   },
   {
@@ -96,6 +149,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(234, 179, 8, 0.2)',
     description: 'The Gas Giant. Gravitational anchor of the outer system. Atmosphere extraction stations orbit in the upper layers.',
     stats: { gravity: '24.79 m/s²', temperature: '-108°C', population: '0', atmosphere: 'H2/He' },
+    radiusKm: 69911,
+    orbit: { ephemeris: 'jupiter', semiMajorAxis: 5.20, period: 5.333, phase: -15, eccentricity: 0.049, inclination: 1.3, argumentOfPeriapsis: 273.9, ascendingNode: 100.5, size: 12, focusZoom: 0.8, color: PASSIVE_COLOR },
+    capabilities: PASSIVE_BODY,
     data: { cities: [] }
   },
   {
@@ -106,6 +162,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(234, 179, 8, 0.1)',
     description: 'Volcanically active hellscape. Geothermal energy production and hazardous waste disposal.',
     stats: { gravity: '1.79 m/s²', temperature: '-130°C', population: '2K', atmosphere: 'SO2' },
+    radiusKm: 1821.6,
+    orbit: { parent: 'jupiter', semiMajorAxis: 0.169, period: 0.2, phase: 0, size: 1.2, focusZoom: 3.2, color: '#F8F' },
+    capabilities: TARGET_BODY,
     data: { cities: [{ name: 'MACA', lat: -18, lng: -104, category: 'ANOMALY' }] }
   },
   {
@@ -116,6 +175,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(0, 255, 255, 0.1)',
     description: 'An icy shell covering a subsurface ocean. Research stations monitor the alien depths.',
     stats: { gravity: '1.31 m/s²', temperature: '-160°C', population: '45K', atmosphere: 'O2 (Trace)' },
+    radiusKm: 1560.8,
+    orbit: { parent: 'jupiter', semiMajorAxis: 0.231, period: 0.267, phase: 90, size: 1.2, focusZoom: 3.2, color: '#AFA' },
+    capabilities: TARGET_BODY,
     data: { cities: [{ name: 'TETHYS', lat: -15, lng: 100, category: 'MILITARY' }] }
   },
   {
@@ -126,6 +188,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(0,0,0,0)',
     description: 'The largest moon in the system. A major trade hub for the outer planets fleet.',
     stats: { gravity: '1.43 m/s²', temperature: '-163°C', population: '85K', atmosphere: 'O2 (Trace)' },
+    radiusKm: 2634.1,
+    orbit: { parent: 'jupiter', semiMajorAxis: 0.292, period: 0.4, phase: 180, size: 1.6, focusZoom: 3.0, color: '#AAF' },
+    capabilities: TARGET_BODY,
     data: { cities: [{ name: 'ARGUS', lat: 45, lng: -120, category: 'MILITARY' }] }
   },
   {
@@ -136,6 +201,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(0,0,0,0)',
     description: 'Jupiter\'s outermost moon. The dead surface hides deep military black-sites.',
     stats: { gravity: '1.24 m/s²', temperature: '-139°C', population: '12K', atmosphere: 'CO2 (Trace)' },
+    radiusKm: 2410.3,
+    orbit: { parent: 'jupiter', semiMajorAxis: 0.354, period: 0.8, phase: 270, size: 1.4, focusZoom: 3.0, color: '#FFA' },
+    capabilities: TARGET_BODY,
     data: { cities: [{ name: 'EYE', lat: 15, lng: 56, category: 'MILITARY' }] }
   },
   {
@@ -146,6 +214,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(200, 200, 100, 0.2)',
     description: 'The Ringed Giant. Home to orbital refineries and gas extraction platforms.',
     stats: { gravity: '10.44 m/s²', temperature: '-139°C', population: '800K', atmosphere: 'H2/He' },
+    radiusKm: 58232,
+    orbit: { ephemeris: 'saturn', semiMajorAxis: 9.54, period: 8, phase: 70, eccentricity: 0.057, inclination: 2.49, argumentOfPeriapsis: 339.4, ascendingNode: 113.7, size: 10, focusZoom: 0.7, color: PASSIVE_COLOR },
+    capabilities: PASSIVE_BODY,
     data: { cities: [{ name: 'TITAN ORBITAL', lat: 0, lng: 0, category: 'ICE', faction: 'ICE' }] }
   },
   {
@@ -156,6 +227,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(100, 200, 255, 0.2)',
     description: 'The Ice Giant. Remote cooling stations and long-range sensor arrays.',
     stats: { gravity: '8.69 m/s²', temperature: '-195°C', population: '5K', atmosphere: 'H2/He/CH4' },
+    radiusKm: 25362,
+    orbit: { ephemeris: 'uranus', semiMajorAxis: 19.2, period: 13.333, phase: 280, eccentricity: 0.046, inclination: 0.77, argumentOfPeriapsis: 96.9, ascendingNode: 74.0, size: 7, focusZoom: 0.6, color: PASSIVE_COLOR },
+    capabilities: PASSIVE_BODY,
     data: { cities: [{ name: 'OBSERVATORY-X', lat: 45, lng: 0, category: 'AC', faction: 'AC' }] }
   },
   {
@@ -166,6 +240,9 @@ export const SOLAR_SYSTEM_DATA: CelestialBodyConfig[] = [
     atmosphereColor: 'rgba(0, 0, 255, 0.2)',
     description: 'The Windy Planet. The furthest outpost of human civilization. A gateway to the unknown.',
     stats: { gravity: '11.15 m/s²', temperature: '-201°C', population: '200', atmosphere: 'H2/He/CH4' },
+    radiusKm: 24622,
+    orbit: { ephemeris: 'neptune', semiMajorAxis: 30.06, period: 20, phase: 10, eccentricity: 0.009, inclination: 1.77, argumentOfPeriapsis: 273.2, ascendingNode: 131.8, size: 7, focusZoom: 0.6, color: PASSIVE_COLOR },
+    capabilities: PASSIVE_BODY,
     data: { cities: [{ name: 'TRITON OUTPOST', lat: 0, lng: 0, category: 'MILITARY', faction: 'Deep Nav' }] }
   }
 ];
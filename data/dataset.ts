@@ -0,0 +1,43 @@
+
+import { CelestialBodyConfig } from '../types/index.ts';
+import { SOLAR_SYSTEM_DATA, DATASET_URL } from './constants.ts';
+import { validateDataset, formatIssue, DatasetIssue } from './validation.ts';
+
+export type DatasetSource = 'BUILTIN' | 'EXTERNAL';
+
+export interface DatasetResult {
+  bodies: CelestialBodyConfig[];
+  source: DatasetSource;
+  url: string | null;
+  issues: DatasetIssue[];
+}
+
+export const resolveDatasetUrl = (): string | null => {
+  const fromQuery = typeof window !== 'undefined' ? new URLSearchParams(window.location.search).get('dataset') : null;
+  return fromQuery || DATASET_URL || null;
+};
+
+const builtin = (url: string | null, issues: DatasetIssue[]): DatasetResult => ({ bodies: SOLAR_SYSTEM_DATA, source: 'BUILTIN', url, issues });
+
+// Any validation issue rejects the whole file; a half-valid dataset is worse than the built-in one
+export const loadDataset = async (url: string | null = resolveDatasetUrl()): Promise<DatasetResult> => {
+  if (!url) return builtin(null, []);
+
+  let json: unknown;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    json = await res.json();
+  } catch (err) {
+    const issues = [{ path: url, message: `could not be loaded (${err instanceof Error ? err.message : String(err)})` }];
+    console.warn(`Dataset rejected, using built-in data:\n${issues.map(formatIssue).join('\n')}`);
+    return builtin(url, issues);
+  }
+
+  const { bodies, issues } = validateDataset(json);
+  if (!bodies) {
+    console.warn(`Dataset rejected, using built-in data:\n${issues.map(formatIssue).join('\n')}`);
+    return builtin(url, issues);
+  }
+  return { bodies, source: 'EXTERNAL', url, issues };
+};
@@ -0,0 +1,155 @@
+
+import { BodyID, CelestialBodyConfig, City, GlobeData, LocationCategory, Route, Zone } from '../types/index.ts';
+import { DatasetIssue, validateLayer } from './validation.ts';
+
+// Endpoint tolerance (degrees) when a LineString has no from/to properties
+const ENDPOINT_EPSILON = 0.01;
+
+const CITY_PROPS = ['faction', 'type', 'population', 'status', 'description'] as const;
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const textProp = (props: Record<string, any>, key: string) => {
+  const v = props[key];
+  if (v === undefined || v === null || v === '') return undefined;
+  return String(v);
+};
+
+const findCityAt = (cities: City[], coord: unknown) => {
+  if (!Array.isArray(coord)) return undefined;
+  const [lng, lat] = coord;
+  return cities.find(c => Math.abs(c.lng - lng) < ENDPOINT_EPSILON && Math.abs(c.lat - lat) < ENDPOINT_EPSILON);
+};
+
+export type LayerKind = 'cities' | 'routes' | 'zones';
+
+export interface LayerImport {
+  data: GlobeData | null;
+  issues: DatasetIssue[];
+  // Kinds the file contained, which replace the current ones; the rest of `current` is kept
+  replaced: LayerKind[];
+}
+
+// Point features become City entries, LineString features become Route entries,
+// Polygon/MultiPolygon features become Zone entries.
+// Features tagged with a different `body` property are skipped.
+// Only the kinds present in the file replace those in `current`, so a Points-only file
+// (e.g. one layer of a QGIS export) keeps the existing routes and zones.
+export const layerFromGeoJson = (json: unknown, bodyId: BodyID, current: GlobeData): LayerImport => {
+  if (!isObject(json) || json.type !== 'FeatureCollection' || !Array.isArray(json.features)) {
+    return { data: null, issues: [{ path: 'geojson', message: 'must be a FeatureCollection' }], replaced: [] };
+  }
+
+  const issues: DatasetIssue[] = [];
+  const cities: City[] = [];
+  const cityPaths: string[] = [];
+  const zones: Zone[] = [];
+  const zonePaths: string[] = [];
+  const lines: { props: Record<string, any>; coords: unknown[]; path: string }[] = [];
+
+  json.features.forEach((feature: unknown, i: number) => {
+    const path = `features[${i}]`;
+    if (!isObject(feature) || !isObject(feature.geometry)) { issues.push({ path: `${path}.geometry`, message: 'is required' }); return; }
+    const props = isObject(feature.properties) ? feature.properties : {};
+    if (props.body !== undefined && props.body !== bodyId) return;
+
+    const { type, coordinates } = feature.geometry;
+    if (type === 'Point') {
+      if (!Array.isArray(coordinates) || coordinates.length < 2) { issues.push({ path: `${path}.geometry.coordinates`, message: 'must be [lng, lat]' }); return; }
+      const city: City = {
+        name: textProp(props, 'name') || '',
+        lat: coordinates[1],
+        lng: coordinates[0],
+        category: String(props.category || '').toUpperCase() as LocationCategory,
+      };
+      CITY_PROPS.forEach(key => { const v = textProp(props, key); if (v !== undefined) city[key] = v; });
+      cities.push(city); cityPaths.push(path);
+    } else if (type === 'LineString') {
+      if (!Array.isArray(coordinates) || coordinates.length < 2) { issues.push({ path: `${path}.geometry.coordinates`, message: 'must have at least 2 positions' }); return; }
+      lines.push({ props, coords: coordinates, path });
+    } else if (type === 'Polygon' || type === 'MultiPolygon') {
+      const zone: Zone = {
+        name: textProp(props, 'name') || '',
+        category: String(props.category || '').toUpperCase() as LocationCategory,
+        geometry: { type, coordinates },
+      };
+      CITY_PROPS.forEach(key => { const v = textProp(props, key); if (v !== undefined) zone[key] = v; });
+      zones.push(zone); zonePaths.push(path);
+    } else {
+      issues.push({ path: `${path}.geometry.type`, message: `${type} is not supported` });
+    }
+  });
+
+  const replaced: LayerKind[] = [];
+  if (cities.length > 0) replaced.push('cities');
+  if (lines.length > 0) replaced.push('routes');
+  if (zones.length > 0) replaced.push('zones');
+  if (replaced.length === 0 && issues.length === 0) issues.push({ path: 'features', message: `has no features for ${bodyId}` });
+
+  // Unnamed route endpoints resolve against whichever cities the layer ends up with
+  const layerCities = replaced.includes('cities') ? cities : current.cities;
+  const routes: Route[] = lines.map(({ props, coords }) => {
+    const route: Route = {
+      from: textProp(props, 'from') || findCityAt(layerCities, coords[0])?.name || '',
+      to: textProp(props, 'to') || findCityAt(layerCities, coords[coords.length - 1])?.name || '',
+    };
+    const type = textProp(props, 'type'); if (type) route.type = type;
+    const status = textProp(props, 'status'); if (status) route.status = status;
+    return route;
+  });
+
+  const data: GlobeData = {
+    cities: layerCities,
+    routes: replaced.includes('routes') ? routes : current.routes,
+    zones: replaced.includes('zones') ? zones : current.zones,
+  };
+  // Imported entries map back onto feature indices for readable diagnostics; kept ones stay under `layer`
+  validateLayer(data, 'layer').forEach(issue => {
+    let path = issue.path;
+    if (replaced.includes('cities')) path = path.replace(/^layer\.cities\[(\d+)\]/, (_, n) => cityPaths[Number(n)]);
+    if (replaced.includes('routes')) path = path.replace(/^layer\.routes\[(\d+)\]/, (_, n) => lines[Number(n)].path);
+    if (replaced.includes('zones')) path = path.replace(/^layer\.zones\[(\d+)\]/, (_, n) => zonePaths[Number(n)]);
+    issues.push({ path, message: issue.message });
+  });
+
+  return { data: issues.length === 0 ? data : null, issues, replaced };
+};
+
+export const layerToGeoJson = (config: CelestialBodyConfig) => {
+  const { cities, routes = [], zones = [] } = config.data;
+  const byName = new Map(cities.map(c => [c.name, c]));
+
+  const points = cities.map(({ lat, lng, ...props }) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [lng, lat] },
+    properties: { body: config.id, ...props },
+  }));
+
+  const lines = routes.flatMap(route => {
+    const a = byName.get(route.from); const b = byName.get(route.to);
+    if (!a || !b) return [];
+    return [{
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: [[a.lng, a.lat], [b.lng, b.lat]] },
+      properties: { body: config.id, ...route },
+    }];
+  });
+
+  const areas = zones.map(({ geometry, ...props }) => ({
+    type: 'Feature',
+    geometry,
+    properties: { body: config.id, ...props },
+  }));
+
+  return { type: 'FeatureCollection', features: [...points, ...lines, ...areas] };
+};
+
+export const readLayerFile = async (file: File, bodyId: BodyID, current: GlobeData): Promise<LayerImport> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    return { data: null, issues: [{ path: file.name, message: 'is not valid JSON' }], replaced: [] };
+  }
+  return layerFromGeoJson(json, bodyId, current);
+};
@@ -0,0 +1,234 @@
+
+import { CameraBookmark, CelestialBodyConfig, LocationCategory } from '../types/index.ts';
+import { EPHEMERIS_KEYS } from '../utils/ephemeris.ts';
+
+export interface DatasetIssue {
+  path: string;
+  message: string;
+}
+
+export const formatIssue = (issue: DatasetIssue) => `${issue.path} ${issue.message}`;
+
+// Body ids end up in URLs and storage keys, so they stay lowercase slugs
+const BODY_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const BODY_TYPES: CelestialBodyConfig['type'][] = ['Planet', 'Moon', 'Asteroid Belt'];
+const CATEGORIES: LocationCategory[] = ['ICE', 'AC', 'WILD', 'MILITARY', 'ANOMALY'];
+const STAT_KEYS = ['gravity', 'temperature', 'population', 'atmosphere'];
+const CAPABILITY_KEYS = ['navigable', 'orbitView', 'passive'];
+const CITY_TEXT_KEYS = ['faction', 'type', 'population', 'status', 'description'];
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const checkString = (issues: DatasetIssue[], obj: Record<string, any>, key: string, path: string, optional = false) => {
+  const v = obj[key];
+  if (v === undefined && optional) return;
+  if (typeof v !== 'string') issues.push({ path: `${path}.${key}`, message: v === undefined ? 'is required' : 'must be a string' });
+  else if (!optional && v.trim() === '') issues.push({ path: `${path}.${key}`, message: 'must not be empty' });
+};
+
+const checkRange = (issues: DatasetIssue[], obj: Record<string, any>, key: string, path: string, min: number, max: number) => {
+  const v = obj[key];
+  if (typeof v !== 'number' || !Number.isFinite(v)) issues.push({ path: `${path}.${key}`, message: v === undefined ? 'is required' : 'must be a number' });
+  else if (v < min || v > max) issues.push({ path: `${path}.${key}`, message: 'out of range' });
+};
+
+const checkOneOf = (issues: DatasetIssue[], obj: Record<string, any>, key: string, path: string, allowed: readonly string[]) => {
+  if (!allowed.includes(obj[key])) issues.push({ path: `${path}.${key}`, message: `must be one of ${allowed.join('|')}` });
+};
+
+const validateCity = (issues: DatasetIssue[], city: unknown, path: string) => {
+  if (!isObject(city)) { issues.push({ path, message: 'must be an object' }); return; }
+  checkString(issues, city, 'name', path);
+  checkRange(issues, city, 'lat', path, -90, 90);
+  checkRange(issues, city, 'lng', path, -180, 180);
+  checkOneOf(issues, city, 'category', path, CATEGORIES);
+  CITY_TEXT_KEYS.forEach(key => checkString(issues, city, key, path, true));
+};
+
+const validateRoute = (issues: DatasetIssue[], route: unknown, path: string, cityNames: Set<string>) => {
+  if (!isObject(route)) { issues.push({ path, message: 'must be an object' }); return; }
+  (['from', 'to'] as const).forEach(key => {
+    checkString(issues, route, key, path);
+    if (typeof route[key] === 'string' && !cityNames.has(route[key])) issues.push({ path: `${path}.${key}`, message: `references unknown city "${route[key]}"` });
+  });
+  checkString(issues, route, 'type', path, true);
+  checkString(issues, route, 'status', path, true);
+};
+
+const validatePosition = (issues: DatasetIssue[], pos: unknown, path: string) => {
+  if (!Array.isArray(pos) || pos.length < 2) { issues.push({ path, message: 'must be [lng, lat]' }); return; }
+  const [lng, lat] = pos;
+  if (typeof lng !== 'number' || typeof lat !== 'number') issues.push({ path, message: 'must be [lng, lat]' });
+  else if (lng < -180 || lng > 180 || lat < -90 || lat > 90) issues.push({ path, message: 'out of range' });
+};
+
+const validatePolygon = (issues: DatasetIssue[], rings: unknown, path: string) => {
+  if (!Array.isArray(rings) || rings.length === 0) { issues.push({ path, message: 'must be an array of rings' }); return; }
+  rings.forEach((ring, r) => {
+    const ringPath = `${path}[${r}]`;
+    if (!Array.isArray(ring) || ring.length < 4) { issues.push({ path: ringPath, message: 'must have at least 4 positions' }); return; }
+    ring.forEach((pos, p) => validatePosition(issues, pos, `${ringPath}[${p}]`));
+  });
+};
+
+const validateZone = (issues: DatasetIssue[], zone: unknown, path: string) => {
+  if (!isObject(zone)) { issues.push({ path, message: 'must be an object' }); return; }
+  checkString(issues, zone, 'name', path);
+  checkOneOf(issues, zone, 'category', path, CATEGORIES);
+  CITY_TEXT_KEYS.forEach(key => checkString(issues, zone, key, path, true));
+
+  const geoPath = `${path}.geometry`;
+  const geometry = zone.geometry;
+  if (!isObject(geometry)) { issues.push({ path: geoPath, message: 'is required' }); return; }
+  if (geometry.type === 'Polygon') validatePolygon(issues, geometry.coordinates, `${geoPath}.coordinates`);
+  else if (geometry.type === 'MultiPolygon') {
+    if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) issues.push({ path: `${geoPath}.coordinates`, message: 'must be an array of polygons' });
+    else geometry.coordinates.forEach((poly: unknown, i: number) => validatePolygon(issues, poly, `${geoPath}.coordinates[${i}]`));
+  } else issues.push({ path: `${geoPath}.type`, message: 'must be one of Polygon|MultiPolygon' });
+};
+
+const checkPositive = (issues: DatasetIssue[], obj: Record<string, any>, key: string, path: string) => {
+  const v = obj[key];
+  if (typeof v !== 'number' || !Number.isFinite(v)) issues.push({ path: `${path}.${key}`, message: v === undefined ? 'is required' : 'must be a number' });
+  else if (v <= 0) issues.push({ path: `${path}.${key}`, message: 'must be positive' });
+};
+
+const checkNumber = (issues: DatasetIssue[], obj: Record<string, any>, key: string, path: string) => {
+  const v = obj[key];
+  if (typeof v !== 'number' || !Number.isFinite(v)) issues.push({ path: `${path}.${key}`, message: v === undefined ? 'is required' : 'must be a number' });
+};
+
+const validateOrbit = (issues: DatasetIssue[], orbit: unknown, path: string) => {
+  if (!isObject(orbit)) { issues.push({ path, message: 'must be an object' }); return; }
+  checkString(issues, orbit, 'parent', path, true);
+  ['semiMajorAxis', 'period', 'size', 'focusZoom'].forEach(key => checkPositive(issues, orbit, key, path));
+  checkRange(issues, orbit, 'phase', path, -360, 360);
+  // Closed orbits only: eccentricity in [0, 1)
+  if (orbit.eccentricity !== undefined) {
+    checkRange(issues, orbit, 'eccentricity', path, 0, 1);
+    if (orbit.eccentricity === 1) issues.push({ path: `${path}.eccentricity`, message: 'out of range' });
+  }
+  if (orbit.inclination !== undefined) checkRange(issues, orbit, 'inclination', path, -180, 180);
+  ['argumentOfPeriapsis', 'ascendingNode'].forEach(key => {
+    if (orbit[key] !== undefined) checkRange(issues, orbit, key, path, -360, 360);
+  });
+  checkString(issues, orbit, 'color', path, true);
+  if (orbit.ephemeris !== undefined) checkOneOf(issues, orbit, 'ephemeris', path, EPHEMERIS_KEYS);
+};
+
+const validateBody = (issues: DatasetIssue[], body: unknown, path: string, seenIds: Set<string>) => {
+  if (!isObject(body)) { issues.push({ path, message: 'must be an object' }); return; }
+  checkString(issues, body, 'id', path);
+  if (typeof body.id === 'string') {
+    if (body.id !== '' && !BODY_ID_PATTERN.test(body.id)) issues.push({ path: `${path}.id`, message: 'must be a lowercase slug' });
+    if (seenIds.has(body.id)) issues.push({ path: `${path}.id`, message: `duplicates "${body.id}"` });
+    seenIds.add(body.id);
+  }
+  checkString(issues, body, 'name', path);
+  checkOneOf(issues, body, 'type', path, BODY_TYPES);
+  checkString(issues, body, 'baseColor', path);
+  checkString(issues, body, 'atmosphereColor', path);
+  checkString(issues, body, 'description', path, true);
+
+  if (body.stats !== undefined) {
+    if (!isObject(body.stats)) issues.push({ path: `${path}.stats`, message: 'must be an object' });
+    else STAT_KEYS.forEach(key => checkString(issues, body.stats, key, `${path}.stats`));
+  }
+  if (body.radiusKm !== undefined) checkPositive(issues, body, 'radiusKm', path);
+  if (body.orbit !== undefined) validateOrbit(issues, body.orbit, `${path}.orbit`);
+  if (body.capabilities !== undefined) {
+    if (!isObject(body.capabilities)) issues.push({ path: `${path}.capabilities`, message: 'must be an object' });
+    else CAPABILITY_KEYS.forEach(key => {
+      const v = body.capabilities[key];
+      if (v !== undefined && typeof v !== 'boolean') issues.push({ path: `${path}.capabilities.${key}`, message: 'must be a boolean' });
+    });
+  }
+
+  validateGlobeData(issues, body.data, `${path}.data`);
+};
+
+const validateGlobeData = (issues: DatasetIssue[], data: unknown, dataPath: string) => {
+  if (!isObject(data)) { issues.push({ path: dataPath, message: data === undefined ? 'is required' : 'must be an object' }); return; }
+  if (!Array.isArray(data.cities)) { issues.push({ path: `${dataPath}.cities`, message: 'must be an array' }); return; }
+
+  const cityNames = new Set<string>();
+  data.cities.forEach((city: unknown, i: number) => {
+    const cityPath = `${dataPath}.cities[${i}]`;
+    validateCity(issues, city, cityPath);
+    if (isObject(city) && typeof city.name === 'string') {
+      if (cityNames.has(city.name)) issues.push({ path: `${cityPath}.name`, message: `duplicates "${city.name}"` });
+      cityNames.add(city.name);
+    }
+  });
+
+  if (data.routes !== undefined) {
+    if (!Array.isArray(data.routes)) issues.push({ path: `${dataPath}.routes`, message: 'must be an array' });
+    else data.routes.forEach((route: unknown, i: number) => validateRoute(issues, route, `${dataPath}.routes[${i}]`, cityNames));
+  }
+
+  if (data.zones !== undefined) {
+    if (!Array.isArray(data.zones)) issues.push({ path: `${dataPath}.zones`, message: 'must be an array' });
+    else data.zones.forEach((zone: unknown, i: number) => validateZone(issues, zone, `${dataPath}.zones[${i}]`));
+  }
+};
+
+// Validates a single body's location layer (e.g. after a GeoJSON import)
+export const validateLayer = (data: unknown, path = 'data'): DatasetIssue[] => {
+  const issues: DatasetIssue[] = [];
+  validateGlobeData(issues, data, path);
+  return issues;
+};
+
+// Accepts either `{ bodies: [...] }` or a bare array of bodies
+export const validateDataset = (json: unknown): { bodies: CelestialBodyConfig[] | null; issues: DatasetIssue[] } => {
+  const issues: DatasetIssue[] = [];
+  const bodies = Array.isArray(json) ? json : isObject(json) ? json.bodies : undefined;
+  if (!Array.isArray(bodies)) return { bodies: null, issues: [{ path: 'bodies', message: 'must be an array' }] };
+  if (bodies.length === 0) return { bodies: null, issues: [{ path: 'bodies', message: 'must not be empty' }] };
+
+  const seenIds = new Set<string>();
+  bodies.forEach((body, i) => validateBody(issues, body, `bodies[${i}]`, seenIds));
+  bodies.forEach((body, i) => {
+    const parent = isObject(body) && isObject(body.orbit) ? body.orbit.parent : undefined;
+    if (typeof parent !== 'string') return;
+    if (parent === body.id) issues.push({ path: `bodies[${i}].orbit.parent`, message: 'must not reference itself' });
+    else if (!seenIds.has(parent)) issues.push({ path: `bodies[${i}].orbit.parent`, message: `references unknown body "${parent}"` });
+  });
+  return { bodies: issues.length === 0 ? bodies as CelestialBodyConfig[] : null, issues };
+};
+
+const validateBookmark = (issues: DatasetIssue[], bookmark: unknown, path: string) => {
+  if (!isObject(bookmark)) { issues.push({ path, message: 'must be an object' }); return; }
+  ['id', 'name', 'body'].forEach(key => checkString(issues, bookmark, key, path));
+  checkString(issues, bookmark, 'createdAt', path, true);
+  checkOneOf(issues, bookmark, 'view', path, ['ORBIT', 'SYSTEM']);
+  checkRange(issues, bookmark, 'zoomLevel', path, 0, 100);
+
+  if (bookmark.globe !== undefined) {
+    const globePath = `${path}.globe`;
+    if (!isObject(bookmark.globe)) issues.push({ path: globePath, message: 'must be an object' });
+    else {
+      const rot = bookmark.globe.rotation;
+      if (!Array.isArray(rot) || rot.length !== 2 || !rot.every(v => typeof v === 'number' && Number.isFinite(v))) issues.push({ path: `${globePath}.rotation`, message: 'must be [lambda, phi]' });
+      checkPositive(issues, bookmark.globe, 'scale', globePath);
+    }
+  }
+  if (bookmark.map !== undefined) {
+    const mapPath = `${path}.map`;
+    if (!isObject(bookmark.map)) issues.push({ path: mapPath, message: 'must be an object' });
+    else {
+      if (!isObject(bookmark.map.rotation)) issues.push({ path: `${mapPath}.rotation`, message: 'must be an object' });
+      else ['x', 'y'].forEach(key => checkNumber(issues, bookmark.map.rotation, key, `${mapPath}.rotation`));
+      checkPositive(issues, bookmark.map, 'zoom', mapPath);
+    }
+  }
+};
+
+// Accepts either `{ bookmarks: [...] }` or a bare array
+export const validateBookmarks = (json: unknown): { bookmarks: CameraBookmark[] | null; issues: DatasetIssue[] } => {
+  const issues: DatasetIssue[] = [];
+  const bookmarks = Array.isArray(json) ? json : isObject(json) ? json.bookmarks : undefined;
+  if (!Array.isArray(bookmarks)) return { bookmarks: null, issues: [{ path: 'bookmarks', message: 'must be an array' }] };
+  bookmarks.forEach((bookmark, i) => validateBookmark(issues, bookmark, `bookmarks[${i}]`));
+  return { bookmarks: issues.length === 0 ? bookmarks as CameraBookmark[] : null, issues };
+};
@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadStoredBookmarks, storeBookmarks } from '../data/bookmarks.ts';
+import { CameraBookmark } from '../types/index.ts';
+
+export function useBookmarks() {
+  const [bookmarks, setBookmarks] = useState<CameraBookmark[]>(loadStoredBookmarks);
+
+  useEffect(() => { storeBookmarks(bookmarks); }, [bookmarks]);
+
+  const addBookmark = useCallback((bookmark: Omit<CameraBookmark, 'id' | 'createdAt'>) => {
+    const id = `bm-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    setBookmarks(prev => [...prev, { ...bookmark, id, createdAt: new Date().toISOString() }]);
+  }, []);
+
+  const removeBookmark = useCallback((id: string) => {
+    setBookmarks(prev => prev.filter(b => b.id !== id));
+  }, []);
+
+  // Imported bookmarks replace existing ones with the same id
+  const importBookmarks = useCallback((incoming: CameraBookmark[]) => {
+    setBookmarks(prev => {
+      const ids = new Set(incoming.map(b => b.id));
+      return [...prev.filter(b => !ids.has(b.id)), ...incoming];
+    });
+  }, []);
+
+  return { bookmarks, addBookmark, removeBookmark, importBookmarks };
+}
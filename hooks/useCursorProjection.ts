@@ -0,0 +1,40 @@
+import { createContext, useContext, useEffect } from 'react';
+
+// What lies under a screen point in the active view: surface coordinates on the globe,
+// ecliptic-plane position on the system map
+export type CursorReadout =
+  | { kind: 'geo'; lat: number; lng: number }
+  | { kind: 'ecliptic'; x: number; z: number }; // AU
+
+export interface CursorProjection {
+  read: (clientX: number, clientY: number) => CursorReadout | null;
+}
+
+// A mutable slot rather than React state: the visuals update their camera every frame and the
+// HUD only needs to sample it on mouse moves, so neither side should re-render for it.
+export interface CursorProjectionChannel {
+  current: CursorProjection | null;
+}
+
+export const CursorProjectionContext = createContext<CursorProjectionChannel>({ current: null });
+
+export const useCursorProjection = () => useContext(CursorProjectionContext);
+
+// Called by the mounted visual; the slot is cleared on unmount unless another view took it over
+export function usePublishCursorProjection(read: CursorProjection['read']) {
+  const channel = useContext(CursorProjectionContext);
+  useEffect(() => {
+    const projection = { read };
+    channel.current = projection;
+    return () => { if (channel.current === projection) channel.current = null; };
+  }, [channel, read]);
+}
+
+export const formatCursorReadout = (readout: CursorReadout) => {
+  if (readout.kind === 'geo') {
+    const lat = `${Math.abs(readout.lat).toFixed(2)}°${readout.lat >= 0 ? 'N' : 'S'}`;
+    const lng = `${Math.abs(readout.lng).toFixed(2)}°${readout.lng >= 0 ? 'E' : 'W'}`;
+    return `${lat} // ${lng}`;
+  }
+  return `X ${readout.x.toFixed(2)} // Z ${readout.z.toFixed(2)} AU`;
+};
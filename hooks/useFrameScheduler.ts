@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef } from 'react';
+
+const FRAME_MS = 1000 / 60;
+// Idle trickle: enough to keep the marker pulses breathing
+export const IDLE_FRAME_MS = 100;
+// Full rate carries on this long after the last busy frame or prop change, so eased values
+// (labels, cluster merges, camera focus) settle smoothly before the trickle takes over
+const SETTLE_MS = 1500;
+// Cap on the elapsed time handed to physics after a stall
+const MAX_FRAMES = 10;
+
+// Render loop for the canvas views. `frame` runs every animation frame while `isBusy()` reports motion,
+// every IDLE_FRAME_MS otherwise (always, when `throttled`), and not at all while the tab is hidden.
+// It receives the time elapsed since the last call in 60 Hz frames, so per-frame physics keeps its speed.
+// Returns `wake`, for camera changes made outside React (imperative handles, their own animations).
+export function useFrameScheduler(frame: (time: number, frames: number) => void, isBusy: () => boolean, throttled = false) {
+  const frameRef = useRef(frame);
+  frameRef.current = frame;
+  const busyRef = useRef(isBusy);
+  busyRef.current = isBusy;
+  const throttledRef = useRef(throttled);
+  throttledRef.current = throttled;
+  const settleUntilRef = useRef(0);
+  const kickRef = useRef(() => {});
+
+  useEffect(() => {
+    let raf = 0; let timer = 0; let last = 0;
+    const stop = () => {
+      cancelAnimationFrame(raf); window.clearTimeout(timer);
+      raf = 0; timer = 0;
+    };
+    const schedule = (delay: number) => {
+      if (delay <= 0) raf = requestAnimationFrame(tick);
+      else timer = window.setTimeout(() => { timer = 0; raf = requestAnimationFrame(tick); }, delay);
+    };
+    const tick = (time: number) => {
+      raf = 0;
+      const frames = last ? Math.min(MAX_FRAMES, (time - last) / FRAME_MS) : 1;
+      last = time;
+      frameRef.current(time, frames);
+      if (busyRef.current()) settleUntilRef.current = time + SETTLE_MS;
+      schedule(!throttledRef.current && time < settleUntilRef.current ? 0 : IDLE_FRAME_MS);
+    };
+
+    // Skip any idle wait and draw on the next frame
+    kickRef.current = () => {
+      if (document.hidden || raf) return;
+      stop(); schedule(0);
+    };
+    const onVisibilityChange = () => {
+      if (document.hidden) { stop(); return; }
+      last = 0;
+      kickRef.current();
+    };
+
+    if (!document.hidden) schedule(0);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      stop();
+      kickRef.current = () => {};
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, []);
+
+  // Draw straight away, then at full rate while the change settles
+  const wake = useCallback(() => {
+    settleUntilRef.current = performance.now() + SETTLE_MS;
+    kickRef.current();
+  }, []);
+
+  // Prop changes arrive as a new `frame`
+  useEffect(wake, [frame, wake]);
+
+  return wake;
+}
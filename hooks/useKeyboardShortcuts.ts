@@ -0,0 +1,63 @@
+import { RefObject, useEffect, useRef } from 'react';
+
+// Listed in the "?" overlay; keep in sync with the handler map in App.tsx
+export const SHORTCUTS: { keys: string[]; label: string }[] = [
+  { keys: ['CTRL/⌘+K'], label: 'COMMAND PALETTE' },
+  { keys: ['←', '→', '↑', '↓'], label: 'ROTATE CAMERA' },
+  { keys: ['+', '-'], label: 'ZOOM IN / OUT' },
+  { keys: ['TAB', 'SHIFT+TAB'], label: 'CYCLE TARGETS (SCENE FOCUSED)' },
+  { keys: ['ENTER'], label: 'SELECT FOCUSED TARGET' },
+  { keys: ['ESC'], label: 'CLOSE DETAIL PANEL / OVERLAY' },
+  { keys: ['1', '…', '9'], label: 'JUMP TO BODY (NAV ORDER)' },
+  { keys: ['O', 'S'], label: 'ORBIT / SYSTEM VIEW' },
+  { keys: ['SPACE'], label: 'PAUSE / RESUME CLOCK' },
+  { keys: ['D'], label: 'TEXT DESCRIPTION MODE' },
+  { keys: ['SHIFT+CLICK'], label: 'MEASURE DISTANCE (GLOBE)' },
+  { keys: ['?'], label: 'TOGGLE THIS OVERLAY' },
+];
+
+const isTypingTarget = (el: EventTarget | null) => {
+  if (!(el instanceof HTMLElement)) return false;
+  return el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName);
+};
+
+// Tab, Space, Enter and the arrows belong to a focused control
+const isControlTarget = (el: EventTarget | null) => el instanceof Element && !!el.closest('button, a[href], [role="button"]');
+
+// Dismissal works from anywhere outside a text field
+const UNSCOPED_KEYS = ['Escape'];
+// With nothing focused Tab has to reach the page's controls, so target cycling needs the scene focused
+const SCENE_ONLY_KEYS = ['Tab', 'Shift+Tab'];
+
+// Handlers are keyed by KeyboardEvent.key ("Shift+Tab" for shifted Tab, "Mod+k" for Ctrl/Cmd+K). A handler
+// returning `false` lets the event through; anything else prevents the browser default. Mod chords fire
+// anywhere, including text fields. Plain keys only fire while nothing is focused or `scopeRef` (the scene)
+// itself is (Tab cycling only on the scene), so Tab, Space and Enter keep working on buttons, links and lists.
+export function useKeyboardShortcuts(
+  handlers: Record<string, (e: KeyboardEvent) => boolean | void>,
+  enabled = true,
+  scopeRef?: RefObject<HTMLElement>
+) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey) return;
+      const mod = e.ctrlKey || e.metaKey;
+      if (!mod && isTypingTarget(e.target)) return;
+      const key = mod ? `Mod+${e.key.toLowerCase()}` : e.key === 'Tab' && e.shiftKey ? 'Shift+Tab' : e.key;
+      if (!mod && !UNSCOPED_KEYS.includes(key)) {
+        const active = document.activeElement;
+        const onScene = !!scopeRef?.current && active === scopeRef.current;
+        const inScope = onScene || (!SCENE_ONLY_KEYS.includes(key) && (active === document.body || active === null));
+        if (!inScope || isControlTarget(e.target)) return;
+      }
+      const handler = handlersRef.current[key];
+      if (handler && handler(e) !== false) e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { createSimulationClock, SimulationClock } from '../utils/simulationClock.ts';
+
+export function useSimulationClock() {
+  const [clock] = useState(createSimulationClock);
+  return clock;
+}
+
+// Controls plus a simulated date refreshed every `intervalMs`, for HUD text and scrubbers
+export function useClockSnapshot(clock: SimulationClock, intervalMs = 250) {
+  const [snapshot, setSnapshot] = useState(() => ({ ...clock.controls(), now: clock.now() }));
+
+  useEffect(() => {
+    const refresh = () => setSnapshot({ ...clock.controls(), now: clock.now() });
+    const unsubscribe = clock.subscribe(refresh);
+    const timer = window.setInterval(refresh, intervalMs);
+    return () => { unsubscribe(); window.clearInterval(timer); };
+  }, [clock, intervalMs]);
+
+  return snapshot;
+}
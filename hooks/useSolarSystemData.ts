@@ -0,0 +1,23 @@
+import { useState, useEffect, useCallback } from 'react';
+import { loadDataset, DatasetResult } from '../data/dataset.ts';
+import { SOLAR_SYSTEM_DATA } from '../data/constants.ts';
+import { BodyID, GlobeData } from '../types/index.ts';
+
+export function useSolarSystemData() {
+  const [dataset, setDataset] = useState<DatasetResult>({ bodies: SOLAR_SYSTEM_DATA, source: 'BUILTIN', url: null, issues: [] });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDataset().then(result => {
+      if (!cancelled) setDataset(result);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Replaces one body's location layer in memory (GeoJSON import)
+  const updateBodyData = useCallback((id: BodyID, data: GlobeData) => {
+    setDataset(prev => ({ ...prev, bodies: prev.bodies.map(b => b.id === id ? { ...b, data } : b) }));
+  }, []);
+
+  return { ...dataset, updateBodyData };
+}
@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { loadWorldAtlas, AtlasState } from '../data/atlas.ts';
+
+export function useWorldAtlas() {
+  const [atlas, setAtlas] = useState<AtlasState>({ status: 'LOADING', land: null });
+
+  useEffect(() => {
+    let cancelled = false;
+    loadWorldAtlas().then(state => {
+      if (!cancelled) setAtlas(state);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  return atlas;
+}
@@ -1,6 +1,6 @@
 
 export type LocationCategory = 'ICE' | 'AC' | 'WILD' | 'MILITARY' | 'ANOMALY';
-export type BodyID = 'mercury' | 'venus' | 'earth' | 'moon' | 'mars' | 'belt' | 'jupiter' | 'io' | 'europa' | 'ganymede' | 'callisto' | 'saturn' | 'uranus' | 'neptune';
+export type BodyID = string;
 
 export interface City {
   name: string;
@@ -21,9 +21,26 @@ export interface Route {
   status?: string;
 }
 
+// Structurally GeoJSON Polygon / MultiPolygon, so d3-geo takes it as is
+export type ZoneGeometry =
+  | { type: 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+export interface Zone {
+  name: string;
+  category: LocationCategory;
+  geometry: ZoneGeometry;
+  faction?: string;
+  type?: string;
+  population?: string;
+  status?: string;
+  description?: string;
+}
+
 export interface GlobeData {
   cities: City[];
   routes?: Route[];
+  zones?: Zone[];
 }
 
 export interface BodyStats {
@@ -33,6 +50,51 @@ export interface BodyStats {
   atmosphere: string;
 }
 
+export interface OrbitalElements {
+  parent?: BodyID;
+  semiMajorAxis: number;
+  period: number;
+  phase: number;
+  // Angles in degrees; omitted elements describe a circular orbit in the ecliptic
+  eccentricity?: number;
+  inclination?: number;
+  argumentOfPeriapsis?: number;
+  ascendingNode?: number;
+  // Key into the mean-element table used by ephemeris mode (utils/ephemeris.ts)
+  ephemeris?: string;
+  size: number;
+  focusZoom: number;
+  color?: string;
+}
+
+export interface BodyCapabilities {
+  navigable: boolean;
+  orbitView: boolean;
+  passive: boolean;
+}
+
+export interface GlobeCamera {
+  rotation: [number, number];
+  scale: number;
+}
+
+export interface MapCamera {
+  rotation: { x: number; y: number };
+  zoom: number;
+}
+
+// The system map always centres on the bookmarked body, so `body` doubles as the map focus
+export interface CameraBookmark {
+  id: string;
+  name: string;
+  createdAt: string;
+  body: BodyID;
+  view: 'ORBIT' | 'SYSTEM';
+  zoomLevel: number;
+  globe?: GlobeCamera;
+  map?: MapCamera;
+}
+
 export interface CelestialBodyConfig {
   id: BodyID;
   name: string;
@@ -41,5 +103,9 @@ export interface CelestialBodyConfig {
   atmosphereColor: string;
   description?: string;
   stats?: BodyStats;
+  // Mean radius; turns globe arc lengths into kilometres for the measurement tool
+  radiusKm?: number;
+  orbit?: OrbitalElements;
+  capabilities?: BodyCapabilities;
   data: GlobeData;
 }
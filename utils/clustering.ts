@@ -0,0 +1,51 @@
+// Screen-space marker clustering for the Globe
+
+export interface ScreenPoint<T> {
+  x: number;
+  y: number;
+  item: T;
+}
+
+export interface ScreenCluster<T> {
+  // Centroid of the members, in screen pixels
+  x: number;
+  y: number;
+  members: ScreenPoint<T>[];
+}
+
+// Greedy: each unassigned point (in input order, so clusters stay stable from frame to frame) seeds a
+// cluster and absorbs every unassigned point within `radius` of it. A grid of radius-sized cells keeps
+// the neighbour search local. Single points come back as clusters of one.
+export function clusterScreenPoints<T>(points: ScreenPoint<T>[], radius: number): ScreenCluster<T>[] {
+  const cellKey = (cx: number, cy: number) => `${cx}:${cy}`;
+  const grid = new Map<string, number[]>();
+  points.forEach((p, i) => {
+    const key = cellKey(Math.floor(p.x / radius), Math.floor(p.y / radius));
+    const cell = grid.get(key);
+    if (cell) cell.push(i); else grid.set(key, [i]);
+  });
+
+  const assigned = new Array(points.length).fill(false);
+  const clusters: ScreenCluster<T>[] = [];
+  points.forEach((seed, i) => {
+    if (assigned[i]) return;
+    assigned[i] = true;
+    const members = [seed];
+    const gx = Math.floor(seed.x / radius); const gy = Math.floor(seed.y / radius);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        grid.get(cellKey(gx + dx, gy + dy))?.forEach(j => {
+          if (assigned[j] || Math.hypot(points[j].x - seed.x, points[j].y - seed.y) > radius) return;
+          assigned[j] = true;
+          members.push(points[j]);
+        });
+      }
+    }
+    clusters.push({
+      x: members.reduce((sum, m) => sum + m.x, 0) / members.length,
+      y: members.reduce((sum, m) => sum + m.y, 0) / members.length,
+      members,
+    });
+  });
+  return clusters;
+}
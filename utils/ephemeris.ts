@@ -0,0 +1,54 @@
+
+import { CelestialBodyConfig, OrbitalElements } from '../types/index.ts';
+import { DAY_MS, J2000_MS } from './simulationClock.ts';
+
+// Keplerian elements and rates per Julian century, valid 1800–2050 (JPL "Approximate Positions of the Planets", table 1).
+// [a (AU), e, I, L, long.peri, long.node] in degrees
+type MeanElementRow = [number, number, number, number, number, number];
+
+const MEAN_ELEMENTS: Record<string, { at: MeanElementRow; rate: MeanElementRow }> = {
+  mercury: { at: [0.38709927, 0.20563593, 7.00497902, 252.25032350, 77.45779628, 48.33076593], rate: [0.00000037, 0.00001906, -0.00594749, 149472.67411175, 0.16047689, -0.12534081] },
+  venus: { at: [0.72333566, 0.00677672, 3.39467605, 181.97909950, 131.60246718, 76.67984255], rate: [0.00000390, -0.00004107, -0.00078890, 58517.81538729, 0.00268329, -0.27769418] },
+  earth: { at: [1.00000261, 0.01671123, -0.00001531, 100.46457166, 102.93768193, 0], rate: [0.00000562, -0.00004392, -0.01294668, 35999.37244981, 0.32327364, 0] },
+  mars: { at: [1.52371034, 0.09339410, 1.84969142, -4.55343205, -23.94362959, 49.55953891], rate: [0.00001847, 0.00007882, -0.00813131, 19140.30268499, 0.44441088, -0.29257343] },
+  jupiter: { at: [5.20288700, 0.04838624, 1.30439695, 34.39644051, 14.72847983, 100.47390909], rate: [-0.00011607, -0.00013253, -0.00183714, 3034.74612775, 0.21252668, 0.20469106] },
+  saturn: { at: [9.53667594, 0.05386179, 2.48599187, 49.95424423, 92.59887831, 113.66242448], rate: [-0.00125060, -0.00050991, 0.00193609, 1222.49362201, -0.41897216, -0.28867794] },
+  uranus: { at: [19.18916464, 0.04725744, 0.77263783, 313.23810451, 170.95427630, 74.01692503], rate: [-0.00196176, -0.00004397, -0.00242939, 428.48202785, 0.40805281, 0.04240589] },
+  neptune: { at: [30.06992276, 0.00859048, 1.77004347, -55.12002969, 44.96476227, 131.78422574], rate: [0.00026291, 0.00005105, 0.00035372, 218.45945325, -0.32241464, -0.00508664] },
+};
+
+export const EPHEMERIS_KEYS = Object.keys(MEAN_ELEMENTS);
+
+// Range the table above is fitted for; outside it positions degrade and the HUD says so
+export const EPHEMERIS_VALID_FROM_MS = Date.UTC(1800, 0, 1);
+export const EPHEMERIS_VALID_TO_MS = Date.UTC(2050, 0, 1);
+
+export const isEphemerisEpochValid = (ms: number) => ms >= EPHEMERIS_VALID_FROM_MS && ms <= EPHEMERIS_VALID_TO_MS;
+
+const CENTURY_MS = 36525 * DAY_MS;
+
+const wrapDegrees = (deg: number) => ((deg + 180) % 360 + 360) % 360 - 180;
+
+// Julian epoch label, e.g. "J2026.80"
+export const julianEpoch = (ms: number) => `J${(2000 + (ms - J2000_MS) / (365.25 * DAY_MS)).toFixed(2)}`;
+
+// Osculating elements at `ms`, expressed so that `relativeOrbitPosition(elements, 0)` gives the heliocentric position.
+// Display-only fields (size, focusZoom, color, parent) are kept from the body's own orbit.
+export const ephemerisOrbit = (body: CelestialBodyConfig, ms: number): OrbitalElements | null => {
+  const key = body.orbit?.ephemeris;
+  const row = key ? MEAN_ELEMENTS[key] : undefined;
+  if (!body.orbit || !row) return null;
+
+  const T = (ms - J2000_MS) / CENTURY_MS;
+  const [a, e, I, L, peri, node] = row.at.map((v, i) => v + row.rate[i] * T);
+  return {
+    ...body.orbit,
+    semiMajorAxis: a,
+    period: Math.pow(a, 1.5),
+    phase: wrapDegrees(L - peri),
+    eccentricity: e,
+    inclination: I,
+    argumentOfPeriapsis: peri - node,
+    ascendingNode: node,
+  };
+};
@@ -0,0 +1,40 @@
+import { CelestialBodyConfig, GlobeData, LocationCategory } from '../types/index.ts';
+
+// Legend toggles. Stored as hidden lists so categories or factions added by a dataset show up by default.
+export interface LocationFilters {
+  hiddenCategories: LocationCategory[];
+  hiddenFactions: string[];
+}
+
+export const EMPTY_FILTERS: LocationFilters = { hiddenCategories: [], hiddenFactions: [] };
+
+export const hasActiveFilters = (filters: LocationFilters) =>
+  filters.hiddenCategories.length > 0 || filters.hiddenFactions.length > 0;
+
+export const isLocationVisible = (item: { category: LocationCategory; faction?: string }, filters: LocationFilters) =>
+  !filters.hiddenCategories.includes(item.category) && !(item.faction && filters.hiddenFactions.includes(item.faction));
+
+// Routes are kept only while both endpoints are still shown
+export const applyLocationFilters = (data: GlobeData, filters: LocationFilters): GlobeData => {
+  if (!hasActiveFilters(filters)) return data;
+  const cities = data.cities.filter(c => isLocationVisible(c, filters));
+  const names = new Set(cities.map(c => c.name));
+  return {
+    cities,
+    routes: data.routes?.filter(r => names.has(r.from) && names.has(r.to)),
+    zones: data.zones?.filter(z => isLocationVisible(z, filters)),
+  };
+};
+
+// Every faction named by a city or zone in the dataset, so the list doesn't change with the active body
+export const collectFactions = (bodies: CelestialBodyConfig[]): string[] => {
+  const factions = new Set<string>();
+  bodies.forEach(body => {
+    body.data.cities.forEach(c => { if (c.faction) factions.add(c.faction); });
+    body.data.zones?.forEach(z => { if (z.faction) factions.add(z.faction); });
+  });
+  return [...factions].sort();
+};
+
+export const toggleListValue = <T>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
@@ -0,0 +1,45 @@
+
+// Multi-touch helpers shared by the Globe and SolarSystemMap touch handlers
+
+export interface TouchPoint {
+  clientX: number;
+  clientY: number;
+}
+
+export interface PinchState {
+  center: { x: number; y: number };
+  distance: number;
+  // Radians, screen coordinates (y down)
+  angle: number;
+}
+
+export const readPinch = (a: TouchPoint, b: TouchPoint): PinchState => ({
+  center: { x: (a.clientX + b.clientX) / 2, y: (a.clientY + b.clientY) / 2 },
+  distance: Math.max(1, Math.hypot(b.clientX - a.clientX, b.clientY - a.clientY)),
+  angle: Math.atan2(b.clientY - a.clientY, b.clientX - a.clientX),
+});
+
+// Shortest signed difference between two angles, in (-PI, PI]
+export const angleDelta = (from: number, to: number) => {
+  const d = (to - from) % (2 * Math.PI);
+  return d > Math.PI ? d - 2 * Math.PI : d <= -Math.PI ? d + 2 * Math.PI : d;
+};
+
+// A touch that moves less than the slop and lifts quickly is a tap, not the end of a drag
+export const TAP_SLOP_PX = 10;
+export const TAP_MAX_MS = 350;
+
+export interface TapTracker {
+  x: number;
+  y: number;
+  time: number;
+  cancelled: boolean;
+}
+
+export const startTap = (x: number, y: number): TapTracker => ({ x, y, time: performance.now(), cancelled: false });
+
+export const updateTap = (tap: TapTracker, x: number, y: number) => {
+  if (Math.hypot(x - tap.x, y - tap.y) > TAP_SLOP_PX) tap.cancelled = true;
+};
+
+export const isTap = (tap: TapTracker | null) => !!tap && !tap.cancelled && performance.now() - tap.time <= TAP_MAX_MS;
@@ -0,0 +1,159 @@
+// Screen-space label placement shared by the Globe and the system map
+
+export interface LabelBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Placed highest first, so lower priorities route around it
+export const LABEL_PRIORITY = { NORMAL: 0, HOVERED: 1, SELECTED: 2 } as const;
+
+export interface LabelRequest {
+  id: string;
+  // Marker centre and radius; every candidate slot sits outside the marker
+  x: number;
+  y: number;
+  r: number;
+  w: number;
+  h: number;
+  priority: number;
+  // Shown even when every slot collides (takes its preferred slot); other labels are dropped instead
+  required?: boolean;
+}
+
+export interface PlacedLabel extends LabelBox {
+  request: LabelRequest;
+  // 0 for the slots hugging the marker; renderers draw leader lines for labels pushed further out
+  ring: number;
+}
+
+export interface LabelLayoutOptions {
+  width: number;
+  height: number;
+  // Gap between the marker edge and the nearest slot
+  gap?: number;
+  // Per-frame easing of a label towards a new slot, 1 snaps
+  smoothing?: number;
+}
+
+export interface LabelLayout {
+  // ctx.measureText, cached per font and text
+  measure: (ctx: CanvasRenderingContext2D, font: string, text: string) => number;
+  // Returns the placed labels highest priority first (draw in reverse to keep it on top). `obstacles`
+  // are marker and badge boxes labels must not cover.
+  place: (requests: LabelRequest[], obstacles: LabelBox[], options: LabelLayoutOptions) => PlacedLabel[];
+  // Topmost label from the last place() under a screen point
+  hitTest: (x: number, y: number) => string | null;
+  reset: () => void;
+}
+
+// Preferred order: below, above, right, left, then the diagonals
+const DIRECTIONS: [number, number][] = [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+const RINGS = [1, 2.5, 4];
+const SLOT_COUNT = DIRECTIONS.length * RINGS.length;
+const ringOf = (slot: number) => Math.floor(slot / DIRECTIONS.length);
+const CELL = 64;
+const MEASURE_CACHE_LIMIT = 2000;
+
+const overlaps = (a: LabelBox, b: LabelBox) => a.x < b.x + b.w && a.x + a.w > b.x && a.y < b.y + b.h && a.y + a.h > b.y;
+
+// Uniform grid over screen space; a box is filed under every cell it touches
+const createBoxIndex = () => {
+  const cells = new Map<number, LabelBox[]>();
+  const forCells = (box: LabelBox, visit: (key: number) => boolean | void) => {
+    const x0 = Math.floor(box.x / CELL); const x1 = Math.floor((box.x + box.w) / CELL);
+    const y0 = Math.floor(box.y / CELL); const y1 = Math.floor((box.y + box.h) / CELL);
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) if (visit((cx + 4096) * 8192 + cy + 4096)) return true;
+    }
+    return false;
+  };
+  return {
+    insert: (box: LabelBox) => { forCells(box, key => { const cell = cells.get(key); if (cell) cell.push(box); else cells.set(key, [box]); }); },
+    collides: (box: LabelBox) => forCells(box, key => cells.get(key)?.some(other => overlaps(box, other))),
+  };
+};
+
+const slotFor = (req: LabelRequest, slot: number, gap: number): LabelBox => {
+  const [dx, dy] = DIRECTIONS[slot % DIRECTIONS.length];
+  const offset = req.r + gap * RINGS[ringOf(slot)];
+  return {
+    x: dx === 0 ? req.x - req.w / 2 : dx > 0 ? req.x + offset : req.x - offset - req.w,
+    y: dy === 0 ? req.y - req.h / 2 : dy > 0 ? req.y + offset : req.y - offset - req.h,
+    w: req.w,
+    h: req.h,
+  };
+};
+
+// Leader from the marker edge to the nearest point of the box, or null when the box touches the marker
+export const leaderLine = (x: number, y: number, r: number, box: LabelBox) => {
+  const tx = Math.max(box.x, Math.min(x, box.x + box.w));
+  const ty = Math.max(box.y, Math.min(y, box.y + box.h));
+  const d = Math.hypot(tx - x, ty - y);
+  if (d <= r + 1) return null;
+  return { x1: x + ((tx - x) / d) * r, y1: y + ((ty - y) / d) * r, x2: tx, y2: ty };
+};
+
+export const createLabelLayout = (): LabelLayout => {
+  const widths = new Map<string, number>();
+  // Last slot and eased offset from the marker per label id, so labels only move when their slot is taken
+  let previous = new Map<string, { slot: number; dx: number; dy: number }>();
+  let placed: PlacedLabel[] = [];
+
+  const measure = (ctx: CanvasRenderingContext2D, font: string, text: string) => {
+    const key = `${font}\n${text}`;
+    let width = widths.get(key);
+    if (width === undefined) {
+      if (widths.size >= MEASURE_CACHE_LIMIT) widths.clear();
+      const prevFont = ctx.font;
+      ctx.font = font;
+      width = ctx.measureText(text).width;
+      ctx.font = prevFont;
+      widths.set(key, width);
+    }
+    return width;
+  };
+
+  const place = (requests: LabelRequest[], obstacles: LabelBox[], { width, height, gap = 12, smoothing = 1 }: LabelLayoutOptions) => {
+    const index = createBoxIndex();
+    obstacles.forEach(index.insert);
+    const inBounds = (box: LabelBox) => box.x >= 0 && box.y >= 0 && box.x + box.w <= width && box.y + box.h <= height;
+    const fits = (box: LabelBox) => inBounds(box) && !index.collides(box);
+
+    // Stable sort keeps input order within a priority, which keeps the result steady between frames
+    const order = requests.map((req, i) => ({ req, i })).sort((a, b) => b.req.priority - a.req.priority || a.i - b.i);
+    const next = new Map<string, { slot: number; dx: number; dy: number }>();
+    placed = [];
+
+    order.forEach(({ req }) => {
+      const last = previous.get(req.id);
+      let slot = -1;
+      for (let s = 0; slot < 0 && s < SLOT_COUNT; s++) if (fits(slotFor(req, s, gap))) slot = s;
+      // Hold the previous slot unless a closer ring opened up, so neighbours don't trade slots every frame
+      if (last && slot >= 0 && ringOf(last.slot) <= ringOf(slot) && fits(slotFor(req, last.slot, gap))) slot = last.slot;
+      if (slot < 0) {
+        if (!req.required) return;
+        slot = last?.slot ?? 0;
+      }
+      const target = slotFor(req, slot, gap);
+      index.insert(target);
+
+      const tdx = target.x - req.x; const tdy = target.y - req.y;
+      const state = last ? { slot, dx: last.dx + (tdx - last.dx) * smoothing, dy: last.dy + (tdy - last.dy) * smoothing } : { slot, dx: tdx, dy: tdy };
+      next.set(req.id, state);
+      placed.push({ x: req.x + state.dx, y: req.y + state.dy, w: req.w, h: req.h, request: req, ring: ringOf(slot) });
+    });
+
+    previous = next;
+    return placed;
+  };
+
+  const hitTest = (x: number, y: number) =>
+    placed.find(p => x >= p.x && x <= p.x + p.w && y >= p.y && y <= p.y + p.h)?.request.id ?? null;
+
+  const reset = () => { previous = new Map(); placed = []; };
+
+  return { measure, place, hitTest, reset };
+};
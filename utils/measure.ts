@@ -0,0 +1,34 @@
+import * as d3 from 'd3';
+
+// Globe measurement tool: great-circle distance on the body's own radius plus travel time
+export type GeoPoint = [number, number]; // [lng, lat] in degrees
+
+export interface MeasurePoint {
+  coords: GeoPoint;
+  // Target name when the endpoint snapped to a city
+  label?: string;
+}
+
+export const TRAVEL_SPEEDS: { label: string; kmh: number }[] = [
+  { label: 'GROUND', kmh: 120 },
+  { label: 'AIR', kmh: 900 },
+  { label: 'SUBORBITAL', kmh: 7000 },
+  { label: 'ORBITAL', kmh: 28000 },
+];
+
+// null when the body has no radius; callers fall back to showing the arc in degrees
+export const greatCircleKm = (a: GeoPoint, b: GeoPoint, radiusKm?: number) =>
+  radiusKm ? d3.geoDistance(a, b) * radiusKm : null;
+
+export const arcDegrees = (a: GeoPoint, b: GeoPoint) => (d3.geoDistance(a, b) * 180) / Math.PI;
+
+export const formatDistance = (km: number) =>
+  km >= 10000 ? `${Math.round(km).toLocaleString('en-US')} KM` : km >= 100 ? `${Math.round(km)} KM` : `${km.toFixed(1)} KM`;
+
+export const formatDuration = (hours: number) => {
+  const minutes = Math.round(hours * 60);
+  if (minutes < 60) return `${minutes}M`;
+  const h = Math.floor(minutes / 60);
+  if (h < 48) return `${h}H ${String(minutes % 60).padStart(2, '0')}M`;
+  return `${Math.floor(h / 24)}D ${h % 24}H`;
+};
@@ -0,0 +1,96 @@
+
+import { CelestialBodyConfig, OrbitalElements } from '../types/index.ts';
+
+// Map units (px at zoom 1) per astronomical unit
+export const AU = 130;
+
+const DEG = Math.PI / 180;
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Mean anomaly; `phase` is its value at t = 0
+export const orbitAngle = (orbit: OrbitalElements, years: number) =>
+  orbit.phase * DEG + (2 * Math.PI * years) / orbit.period;
+
+// Kepler's equation M = E - e·sin(E), Newton iterations
+export const solveEccentricAnomaly = (meanAnomaly: number, e: number) => {
+  const M = ((meanAnomaly % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+  let E = e < 0.8 ? M : Math.PI;
+  for (let i = 0; i < 12; i++) {
+    const dE = (E - e * Math.sin(E) - M) / (1 - e * Math.cos(E));
+    E -= dE;
+    if (Math.abs(dE) < 1e-8) break;
+  }
+  return E;
+};
+
+// Point on the orbit for a given eccentric anomaly. The ecliptic is the map's x/z plane;
+// map y grows downwards on screen, so bodies north of the ecliptic get negative y.
+const orbitPoint = (orbit: OrbitalElements, E: number): Vec3 => {
+  const e = orbit.eccentricity ?? 0;
+  const a = orbit.semiMajorAxis * AU;
+  const px = a * (Math.cos(E) - e);
+  const py = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+  const w = (orbit.argumentOfPeriapsis ?? 0) * DEG;
+  const inc = (orbit.inclination ?? 0) * DEG;
+  const node = (orbit.ascendingNode ?? 0) * DEG;
+  const cw = Math.cos(w), sw = Math.sin(w), ci = Math.cos(inc), si = Math.sin(inc), cn = Math.cos(node), sn = Math.sin(node);
+
+  const xw = px * cw - py * sw;
+  const yw = px * sw + py * cw;
+  return {
+    x: xw * cn - yw * ci * sn,
+    y: -(yw * si),
+    z: xw * sn + yw * ci * cn,
+  };
+};
+
+// Position relative to the parent body (or Sol when there is no parent)
+export const relativeOrbitPosition = (orbit: OrbitalElements, years: number): Vec3 =>
+  orbitPoint(orbit, solveEccentricAnomaly(orbitAngle(orbit, years), orbit.eccentricity ?? 0));
+
+// Sampled evenly in eccentric anomaly, which keeps the periapsis end of long ellipses smooth
+export const sampleOrbitPath = (orbit: OrbitalElements, segments = 120): Vec3[] => {
+  const points: Vec3[] = [];
+  for (let i = 0; i <= segments; i++) points.push(orbitPoint(orbit, (i / segments) * Math.PI * 2));
+  return points;
+};
+
+// Absolute positions for every body with orbital elements; children follow their parent chain.
+// Bodies whose parent is missing or part of a cycle are left out.
+// `orbitAt` may substitute elements already evaluated at the current instant (ephemeris mode).
+export const computeBodyPositions = (
+  bodies: CelestialBodyConfig[],
+  years: number,
+  orbitAt?: (body: CelestialBodyConfig) => OrbitalElements | null,
+): Map<string, Vec3> => {
+  const byId = new Map<string, CelestialBodyConfig>(bodies.map(b => [b.id, b]));
+  const positions = new Map<string, Vec3>();
+  const resolving = new Set<string>();
+
+  const resolve = (id: string): Vec3 | null => {
+    const cached = positions.get(id);
+    if (cached) return cached;
+    const body = byId.get(id);
+    if (!body?.orbit || resolving.has(id)) return null;
+
+    resolving.add(id);
+    const origin = body.orbit.parent ? resolve(body.orbit.parent) : { x: 0, y: 0, z: 0 };
+    resolving.delete(id);
+    if (!origin) return null;
+
+    const snapshot = orbitAt?.(body);
+    const rel = snapshot ? relativeOrbitPosition(snapshot, 0) : relativeOrbitPosition(body.orbit, years);
+    const pos = { x: origin.x + rel.x, y: origin.y + rel.y, z: origin.z + rel.z };
+    positions.set(id, pos);
+    return pos;
+  };
+
+  bodies.forEach(b => resolve(b.id));
+  return positions;
+};
@@ -0,0 +1,219 @@
+import { CelestialBodyConfig, City } from '../types/index.ts';
+
+// Search-box query language shared by LocationList and SystemList:
+//   faction:ICE status:CRITICAL      terms separated by spaces must all match
+//   faction:ICE OR faction:AC        OR (or |) between terms or groups
+//   -status:OFFLINE / NOT status:X   negation
+//   (type:Node.* OR type:Colony)     grouping; * is a wildcard
+//   pop>10M gravity<=5               numeric comparison, K/M/B/T suffixes on both sides
+//   name="NEW UTOPIA"                = is an exact match, : a substring match; quotes keep spaces
+//   utopia                           bare words search the schema's default fields
+
+export interface QueryError {
+  message: string;
+  // Character offset into the source, for pointing at the problem
+  position: number;
+}
+
+// A query that fails to parse matches everything, so the list stays usable while the error is shown
+export interface CompiledQuery<T> {
+  match: (item: T) => boolean;
+  error: QueryError | null;
+}
+
+export interface QuerySchema<T> {
+  fields: Record<string, (item: T) => string | undefined>;
+  aliases?: Record<string, string>;
+  // Fields searched by bare words
+  defaults: string[];
+}
+
+type Op = ':' | '=' | '>' | '<' | '>=' | '<=';
+
+type Node<T> =
+  | { kind: 'and' | 'or'; children: Node<T>[] }
+  | { kind: 'not'; child: Node<T> }
+  | { kind: 'test'; test: (item: T) => boolean };
+
+interface Token {
+  type: 'word' | 'lparen' | 'rparen' | 'or' | 'not';
+  text: string;
+  position: number;
+}
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+const SUFFIXES: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+
+// First number in a display string: "80M" -> 80e6, "9.81 m/s²" -> 9.81, "-63°C" -> -63
+export const parseMagnitude = (value: string): number | null => {
+  const m = value.match(/(-?\d+(?:\.\d+)?)([KMBT])?(?![A-Za-z])/i);
+  if (!m) return null;
+  return parseFloat(m[1]) * (m[2] ? SUFFIXES[m[2].toUpperCase()] : 1);
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(') { tokens.push({ type: 'lparen', text: ch, position: i++ }); continue; }
+    if (ch === ')') { tokens.push({ type: 'rparen', text: ch, position: i++ }); continue; }
+    if (ch === '|') { tokens.push({ type: 'or', text: ch, position: i++ }); continue; }
+    if (ch === '-' && i + 1 < source.length && !/[\s()\d]/.test(source[i + 1])) {
+      tokens.push({ type: 'not', text: ch, position: i++ });
+      continue;
+    }
+    const start = i;
+    let text = '';
+    while (i < source.length && !/[\s()|]/.test(source[i])) {
+      if (source[i] === '"') {
+        const end = source.indexOf('"', i + 1);
+        if (end === -1) throw new QuerySyntaxError('unterminated quote', i);
+        text += source.slice(i + 1, end);
+        i = end + 1;
+      } else {
+        text += source[i++];
+      }
+    }
+    const raw = source.slice(start, i).toUpperCase();
+    tokens.push({ type: raw === 'OR' ? 'or' : raw === 'NOT' ? 'not' : 'word', text, position: start });
+  }
+  return tokens;
+};
+
+const globToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+const compileTerm = <T>(token: Token, schema: QuerySchema<T>): Node<T> => {
+  const m = token.text.match(/^([A-Za-z_]+)(>=|<=|:|=|>|<)(.*)$/);
+  if (!m) {
+    const needle = token.text.toLowerCase();
+    const getters = schema.defaults.map(f => schema.fields[f]);
+    return { kind: 'test', test: item => getters.some(get => (get(item) || '').toLowerCase().includes(needle)) };
+  }
+
+  const [, rawField, , value] = m;
+  const op = m[2] as Op;
+  const key = rawField.toLowerCase();
+  const field = schema.aliases?.[key] || key;
+  const get = schema.fields[field];
+  if (!get) throw new QuerySyntaxError(`unknown field "${rawField}" (${Object.keys(schema.fields).join(', ')})`, token.position);
+  if (value === '') throw new QuerySyntaxError(`missing value after ${rawField}${op}`, token.position);
+
+  if (op === ':' || op === '=') {
+    const lower = value.toLowerCase();
+    const glob = value.includes('*') ? globToRegExp(value) : null;
+    const matches = glob
+      ? (s: string) => glob.test(s)
+      : op === '=' ? (s: string) => s.toLowerCase() === lower : (s: string) => s.toLowerCase().includes(lower);
+    return { kind: 'test', test: item => matches(get(item) || '') };
+  }
+
+  const limit = parseMagnitude(value);
+  if (limit === null) throw new QuerySyntaxError(`${rawField}${op} needs a number`, token.position + rawField.length + op.length);
+  return {
+    kind: 'test',
+    test: item => {
+      const n = parseMagnitude(get(item) || '');
+      if (n === null) return false;
+      return op === '>' ? n > limit : op === '<' ? n < limit : op === '>=' ? n >= limit : n <= limit;
+    },
+  };
+};
+
+const parse = <T>(tokens: Token[], schema: QuerySchema<T>, sourceLength: number): Node<T> => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const endPosition = () => (peek() ? peek().position : sourceLength);
+
+  const parseUnary = (): Node<T> => {
+    const token = peek();
+    if (!token) throw new QuerySyntaxError('expression expected', sourceLength);
+    if (token.type === 'not') { pos++; return { kind: 'not', child: parseUnary() }; }
+    if (token.type === 'lparen') {
+      pos++;
+      const inner = parseOr();
+      if (peek()?.type !== 'rparen') throw new QuerySyntaxError('missing )', endPosition());
+      pos++;
+      return inner;
+    }
+    if (token.type === 'word') { pos++; return compileTerm(token, schema); }
+    throw new QuerySyntaxError(token.type === 'or' ? 'OR needs a term on both sides' : `unexpected ${token.text}`, token.position);
+  };
+
+  const parseAnd = (): Node<T> => {
+    const children = [parseUnary()];
+    while (peek() && peek().type !== 'or' && peek().type !== 'rparen') children.push(parseUnary());
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+
+  const parseOr = (): Node<T> => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      pos++;
+      if (!peek() || peek().type === 'rparen') throw new QuerySyntaxError('OR needs a term on both sides', endPosition());
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+
+  const root = parseOr();
+  if (pos < tokens.length) throw new QuerySyntaxError(`unexpected ${peek().text}`, peek().position);
+  return root;
+};
+
+const evaluate = <T>(node: Node<T>, item: T): boolean => {
+  switch (node.kind) {
+    case 'and': return node.children.every(c => evaluate(c, item));
+    case 'or': return node.children.some(c => evaluate(c, item));
+    case 'not': return !evaluate(node.child, item);
+    case 'test': return node.test(item);
+  }
+};
+
+export function compileQuery<T>(source: string, schema: QuerySchema<T>): CompiledQuery<T> {
+  try {
+    const tokens = tokenize(source);
+    if (tokens.length === 0) return { match: () => true, error: null };
+    const root = parse(tokens, schema, source.length);
+    return { match: item => evaluate(root, item), error: null };
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) return { match: () => true, error: { message: err.message, position: err.position } };
+    throw err;
+  }
+}
+
+export const LOCATION_QUERY: QuerySchema<City> = {
+  fields: {
+    name: c => c.name,
+    faction: c => c.faction,
+    category: c => c.category,
+    type: c => c.type,
+    status: c => c.status,
+    population: c => c.population,
+    description: c => c.description,
+  },
+  aliases: { pop: 'population', cat: 'category', desc: 'description' },
+  defaults: ['name', 'faction', 'category'],
+};
+
+export const BODY_QUERY: QuerySchema<CelestialBodyConfig> = {
+  fields: {
+    name: b => b.name,
+    id: b => b.id,
+    type: b => b.type,
+    gravity: b => b.stats?.gravity,
+    temperature: b => b.stats?.temperature,
+    population: b => b.stats?.population,
+    atmosphere: b => b.stats?.atmosphere,
+    description: b => b.description,
+  },
+  aliases: { pop: 'population', temp: 'temperature', atm: 'atmosphere', desc: 'description' },
+  defaults: ['name', 'type'],
+};
@@ -0,0 +1,82 @@
+import { BodyID, CelestialBodyConfig, City } from '../types/index.ts';
+import { createBodyRegistry } from '../data/bodyRegistry.ts';
+
+// System-wide search: every navigable body plus the cities of bodies that have an orbit view
+export type SearchEntry =
+  | { kind: 'body'; bodyId: BodyID; label: string; detail: string }
+  | { kind: 'city'; bodyId: BodyID; label: string; detail: string; city: City };
+
+export interface SearchHit {
+  entry: SearchEntry;
+  score: number;
+}
+
+export const buildSearchIndex = (bodies: CelestialBodyConfig[]): SearchEntry[] => {
+  const registry = createBodyRegistry(bodies);
+  return [
+    ...registry.navigable.map(body => ({ kind: 'body' as const, bodyId: body.id, label: body.name, detail: body.type })),
+    ...bodies.filter(body => registry.hasOrbitView(body.id)).flatMap(body =>
+      body.data.cities.map(city => ({
+        kind: 'city' as const,
+        bodyId: body.id,
+        label: city.name,
+        detail: [body.name, city.faction, city.type].filter(Boolean).join(' // '),
+        city,
+      }))
+    ),
+  ];
+};
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+const editDistance = (a: string, b: string) => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+const isSubsequence = (needle: string, haystack: string) => {
+  let i = 0;
+  for (const ch of haystack) if (ch === needle[i]) i++;
+  return i === needle.length;
+};
+
+// Higher is better, null for no match. Exact and prefix hits rank above substrings, then in-order
+// letters ("nyprm"), then typo-tolerant word matches ("geneva" -> "GENEWA ENCLAVE").
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return null;
+  if (t === q) return 1000;
+  if (t.startsWith(q)) return 900 - (t.length - q.length);
+  const words = t.split(/[\s\-_./()]+/).filter(Boolean);
+  if (words.some(w => w.startsWith(q))) return 800 - (t.length - q.length);
+  if (t.includes(q)) return 700 - t.indexOf(q);
+  if (q.length > 1 && isSubsequence(q, t)) return 500 - (t.length - q.length);
+
+  // Each query word must be close to some word (or word prefix) of the text
+  const allowed = (w: string) => (w.length <= 3 ? 0 : w.length <= 6 ? 1 : 2);
+  let total = 0;
+  for (const qw of q.split(/\s+/)) {
+    let best = Infinity;
+    for (const w of words) best = Math.min(best, editDistance(qw, w), editDistance(qw, w.slice(0, qw.length)) + 0.5);
+    if (best > allowed(qw)) return null;
+    total += best;
+  }
+  return 300 - total * 50;
+};
+
+export const searchEntries = (index: SearchEntry[], query: string, limit = 8): SearchHit[] =>
+  index
+    .flatMap(entry => {
+      const score = fuzzyScore(query, entry.label);
+      return score === null ? [] : [{ entry, score }];
+    })
+    .sort((a, b) => b.score - a.score || a.entry.label.localeCompare(b.entry.label))
+    .slice(0, limit);
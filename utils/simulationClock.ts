@@ -0,0 +1,86 @@
+
+// Shared simulation time. Render loops read `now()` every frame; UI subscribes to control changes.
+
+export const DAY_MS = 86400000;
+export const YEAR_MS = 365.25 * DAY_MS;
+// Orbital phases in the dataset are given at J2000.0
+export const J2000_MS = Date.UTC(2000, 0, 1, 12);
+
+// Simulated milliseconds per real millisecond
+export const WARP_PRESETS = [
+  { label: '1X', value: 1 },
+  { label: '1H/S', value: 3600 },
+  { label: '1D/S', value: 86400 },
+  { label: '1W/S', value: 7 * 86400 },
+  { label: '30D/S', value: 30 * 86400 },
+];
+export const DEFAULT_WARP = 86400;
+
+// Scrubber range
+export const TIMELINE_START_MS = Date.UTC(2000, 0, 1);
+export const TIMELINE_END_MS = Date.UTC(2100, 0, 1);
+
+export interface ClockControls {
+  playing: boolean;
+  warp: number;
+}
+
+export interface SimulationClock {
+  now: () => number;
+  years: () => number;
+  controls: () => ClockControls;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  setWarp: (warp: number) => void;
+  setDate: (ms: number) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const createSimulationClock = (startMs = Date.now()): SimulationClock => {
+  let anchorSim = startMs;
+  let anchorWall = performance.now();
+  let state: ClockControls = { playing: true, warp: DEFAULT_WARP };
+  const listeners = new Set<() => void>();
+
+  const now = () => state.playing ? anchorSim + (performance.now() - anchorWall) * state.warp : anchorSim;
+
+  // Re-anchor before every control change so the simulated date never jumps
+  const update = (next: Partial<ClockControls>, simMs = now()) => {
+    anchorSim = simMs;
+    anchorWall = performance.now();
+    state = { ...state, ...next };
+    listeners.forEach(l => l());
+  };
+
+  return {
+    now,
+    years: () => (now() - J2000_MS) / YEAR_MS,
+    controls: () => state,
+    play: () => update({ playing: true }),
+    pause: () => update({ playing: false }),
+    toggle: () => update({ playing: !state.playing }),
+    setWarp: (warp) => update({ warp }),
+    setDate: (ms) => update({}, ms),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+// "2026-10-19 14:02 UTC"
+export const formatSimDate = (ms: number) => {
+  const iso = new Date(ms).toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
+};
+
+// Approximate subsolar point on Earth (declination from day of year, longitude from UTC time of day)
+export const subsolarPoint = (ms: number): [number, number] => {
+  const d = new Date(ms);
+  const dayOfYear = (ms - Date.UTC(d.getUTCFullYear(), 0, 0)) / DAY_MS;
+  const lat = -23.44 * Math.cos((2 * Math.PI / 365) * (dayOfYear + 10));
+  const utcHours = d.getUTCHours() + d.getUTCMinutes() / 60;
+  const lng = ((12 - utcHours) * 15 + 540) % 360 - 180;
+  return [lng, lat];
+};
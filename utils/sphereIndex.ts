@@ -0,0 +1,104 @@
+import { GeoPoint } from './measure.ts';
+
+// Static index over points on a sphere: hemisphere culling and picking for the Globe
+
+export interface SphereIndex<T> {
+  size: number;
+  // Items strictly in front of the limb for a view centred on `center`
+  visible: (center: GeoPoint) => T[];
+  // Items within `radius` radians of `point`, nearest first
+  within: (point: GeoPoint, radius: number) => T[];
+}
+
+interface Cell<T> {
+  items: T[];
+  // Unit vectors of the items, packed xyz
+  xyz: Float64Array;
+  // Bounding cap: centre direction and angular radius
+  centre: [number, number, number];
+  radius: number;
+}
+
+const RAD = Math.PI / 180;
+
+const toVector = ([lng, lat]: GeoPoint): [number, number, number] => {
+  const cosLat = Math.cos(lat * RAD);
+  return [cosLat * Math.cos(lng * RAD), cosLat * Math.sin(lng * RAD), Math.sin(lat * RAD)];
+};
+
+// Angle between `a` and the vector packed at xyz[i..i+2]
+const angleBetween = (a: ArrayLike<number>, xyz: ArrayLike<number>, i = 0) =>
+  Math.acos(Math.max(-1, Math.min(1, a[0] * xyz[i] + a[1] * xyz[i + 1] + a[2] * xyz[i + 2])));
+
+// Latitude bands of `cellDegrees`, each split into roughly square cells, so a cell's cap stays small even
+// near the poles. Cells keep the order their first item appears in, which keeps query results in roughly
+// data order and identical between frames.
+export function createSphereIndex<T>(items: T[], coordsOf: (item: T) => GeoPoint, cellDegrees = 10): SphereIndex<T> {
+  const bands = Math.ceil(180 / cellDegrees);
+  const buckets = new Map<number, T[]>();
+  items.forEach(item => {
+    const [lng, lat] = coordsOf(item);
+    const band = Math.max(0, Math.min(bands - 1, Math.floor((lat + 90) / cellDegrees)));
+    const columns = Math.max(1, Math.round((360 / cellDegrees) * Math.cos((-90 + (band + 0.5) * cellDegrees) * RAD)));
+    const column = Math.min(columns - 1, Math.floor(((((lng + 180) % 360) + 360) % 360) / 360 * columns));
+    const key = band * 1024 + column;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(item); else buckets.set(key, [item]);
+  });
+
+  const cells: Cell<T>[] = [...buckets.values()].map(members => {
+    const xyz = new Float64Array(members.length * 3);
+    let sx = 0, sy = 0, sz = 0;
+    members.forEach((item, i) => {
+      const v = toVector(coordsOf(item));
+      xyz.set(v, i * 3);
+      sx += v[0]; sy += v[1]; sz += v[2];
+    });
+    const len = Math.hypot(sx, sy, sz);
+    const centre: [number, number, number] = len > 1e-9 ? [sx / len, sy / len, sz / len] : [xyz[0], xyz[1], xyz[2]];
+    let radius = 0;
+    for (let i = 0; i < xyz.length; i += 3) radius = Math.max(radius, angleBetween(centre, xyz, i));
+    return { items: members, xyz, centre, radius };
+  });
+
+  const visible = (center: GeoPoint) => {
+    const view = toVector(center);
+    const out: T[] = [];
+    cells.forEach(cell => {
+      const angle = angleBetween(view, cell.centre);
+      if (angle - cell.radius >= Math.PI / 2) return;
+      if (angle + cell.radius < Math.PI / 2) { cell.items.forEach(item => out.push(item)); return; }
+      const { xyz } = cell;
+      cell.items.forEach((item, i) => {
+        if (view[0] * xyz[i * 3] + view[1] * xyz[i * 3 + 1] + view[2] * xyz[i * 3 + 2] > 0) out.push(item);
+      });
+    });
+    return out;
+  };
+
+  const within = (point: GeoPoint, radius: number) => {
+    const p = toVector(point);
+    const hits: { item: T; distance: number }[] = [];
+    cells.forEach(cell => {
+      if (angleBetween(p, cell.centre) - cell.radius > radius) return;
+      cell.items.forEach((item, i) => {
+        const distance = angleBetween(p, cell.xyz, i * 3);
+        if (distance <= radius) hits.push({ item, distance });
+      });
+    });
+    return hits.sort((a, b) => a.distance - b.distance).map(h => h.item);
+  };
+
+  return { size: items.length, visible, within };
+}
+
+// Angular radius, around the surface point under a screen position, that contains every front-facing point
+// projecting within `rho` of that position on an orthographic view. `offset` is the position's distance from
+// the disc centre; both are in sphere radii. Foreshortening makes this grow towards the limb.
+// Off the disc the surface point is taken on the limb, which widens the reach by the overshoot.
+export const orthographicPickRadius = (offset: number, rho: number) => {
+  const near = Math.max(0, offset - rho); const far = Math.min(1, offset + rho);
+  const depth = Math.sqrt(1 - Math.min(1, near) ** 2) - Math.sqrt(1 - far * far);
+  const chord = Math.hypot(rho + Math.max(0, offset - 1), depth);
+  return chord >= 2 ? Math.PI : 2 * Math.asin(chord / 2);
+};
@@ -0,0 +1,54 @@
+
+// Deep-link state kept in the URL hash, e.g. #view=orbit&body=mars&city=NEW+UTOPIA&zoom=70&rot=-12.0,40.5
+// (the query string stays free for `?dataset=<url>`).
+
+export type UrlViewMode = 'ORBIT' | 'SYSTEM';
+
+export interface UrlState {
+  view?: UrlViewMode;
+  body?: string;
+  city?: string;
+  zone?: string;
+  zoom?: number;
+  // Globe rotation [lambda, phi] as passed to d3 `projection.rotate`
+  rot?: [number, number];
+}
+
+const wrapLongitude = (deg: number) => ((deg + 180) % 360 + 360) % 360 - 180;
+
+// Number('') is 0, so blank values (`#zoom=`, `#rot=,`) count as absent rather than as the origin
+const parseNumber = (value: string | null | undefined) => value && value.trim() ? Number(value) : NaN;
+
+export const parseUrlState = (hash: string): UrlState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const state: UrlState = {};
+
+  const view = params.get('view')?.toUpperCase();
+  if (view === 'ORBIT' || view === 'SYSTEM') state.view = view;
+  const body = params.get('body'); if (body) state.body = body;
+  const city = params.get('city'); if (city) state.city = city;
+  const zone = params.get('zone'); if (zone) state.zone = zone;
+
+  const zoom = parseNumber(params.get('zoom'));
+  if (Number.isFinite(zoom)) state.zoom = Math.round(Math.max(0, Math.min(100, zoom)));
+
+  const rot = (params.get('rot') || '').split(',').map(parseNumber);
+  if (rot.length === 2 && rot.every(Number.isFinite)) state.rot = [wrapLongitude(rot[0]), Math.max(-90, Math.min(90, rot[1]))];
+
+  return state;
+};
+
+export const serializeUrlState = (state: UrlState) => {
+  const params = new URLSearchParams();
+  if (state.view) params.set('view', state.view.toLowerCase());
+  if (state.body) params.set('body', state.body);
+  if (state.city) params.set('city', state.city);
+  if (state.zone) params.set('zone', state.zone);
+  if (state.zoom !== undefined) params.set('zoom', String(Math.round(state.zoom)));
+  if (state.rot) params.set('rot', [wrapLongitude(state.rot[0]), state.rot[1]].map(v => v.toFixed(1)).join(','));
+  return `#${params.toString()}`;
+};
+
+// Changes to these fields get their own history entry; zoom and camera only replace the current one
+export const isNavigationChange = (a: UrlState, b: UrlState) =>
+  a.view !== b.view || a.body !== b.body || a.city !== b.city || a.zone !== b.zone;